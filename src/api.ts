@@ -4,23 +4,90 @@
  */
 
 import { randomUUID } from "node:crypto";
-import { config, BASE_URL } from "./config.js";
-import { CliError, HTTPError, SetupError } from "./errors.js";
+import { config, BASE_URL, type CodecksCredentials } from "./config.js";
+import { CliError, HTTPError, SetupError, TransientError } from "./errors.js";
+import { TokenBucket } from "./ratelimit.js";
+import { logHttpExchange } from "./httplog.js";
+import { recordApiRequest, recordApiRetry, recordRateLimitWait } from "./metrics.js";
 
 const RETRYABLE_HTTP_CODES = new Set([429, 502, 503, 504]);
 
+// ---------------------------------------------------------------------------
+// Rate limiting (shared by every request to the Codecks API)
+// ---------------------------------------------------------------------------
+
+const limiter =
+  config.rateLimitRequests > 0
+    ? new TokenBucket(config.rateLimitRequests, Math.max(1000, config.rateLimitWindow))
+    : null;
+
+async function throttle(url: string): Promise<void> {
+  if (!limiter) return;
+  const depth = limiter.queueDepth;
+  const waited = await limiter.acquire();
+  if (waited > 0) {
+    recordRateLimitWait(waited);
+    debugLog(
+      `rate limit: waited ${waited}ms for ${new URL(url).pathname} (queue depth ${depth + 1})`,
+    );
+  }
+}
+
+function debugLog(message: string): void {
+  if (config.debug) console.error(`[codecks-mcp] ${message}`);
+}
+
 // ---------------------------------------------------------------------------
 // HTTP request
 // ---------------------------------------------------------------------------
 
-async function httpRequest(
+interface HttpRequestOptions {
+  data?: unknown;
+  method?: string;
+  headers?: Record<string, string>;
+  idempotent?: boolean;
+}
+
+/** What happened on the wire, for CODECKS_HTTP_LOG. */
+interface ExchangeStats {
+  attempts: number;
+  status?: number;
+  responseBytes?: number;
+}
+
+async function httpRequest(url: string, options: HttpRequestOptions = {}): Promise<unknown> {
+  const { method = "POST", headers = {} } = options;
+  const stats: ExchangeStats = { attempts: 0 };
+  const started = Date.now();
+  let error: string | undefined;
+
+  try {
+    return await sendWithRetries(url, options, stats);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    const latencyMs = Date.now() - started;
+    const retries = Math.max(0, stats.attempts - 1);
+    recordApiRequest(new URL(url).pathname, stats.status, latencyMs, retries);
+    logHttpExchange({
+      method,
+      url,
+      requestId: headers["X-Request-Id"],
+      headers,
+      status: stats.status,
+      latencyMs,
+      retries,
+      responseBytes: stats.responseBytes,
+      error,
+    });
+  }
+}
+
+async function sendWithRetries(
   url: string,
-  options: {
-    data?: unknown;
-    method?: string;
-    headers?: Record<string, string>;
-    idempotent?: boolean;
-  } = {},
+  options: HttpRequestOptions,
+  stats: ExchangeStats,
 ): Promise<unknown> {
   const { data, method = "POST", headers = {}, idempotent = false } = options;
 
@@ -29,6 +96,8 @@ async function httpRequest(
   const timeout = Math.max(1000, config.httpTimeout);
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    stats.attempts = attempt + 1;
+    await throttle(url);
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), timeout);
 
@@ -45,6 +114,7 @@ async function httpRequest(
       });
 
       clearTimeout(timer);
+      stats.status = response.status;
 
       if (!response.ok) {
         const errorBody = await response.text().catch(() => "");
@@ -52,10 +122,9 @@ async function httpRequest(
         const canRetry = idempotent && attempt < maxAttempts - 1 && retryable;
 
         if (canRetry) {
-          const retryAfter =
-            parseInt(response.headers.get("Retry-After") ?? "", 10) ||
-            config.httpRetryBase * 2 ** attempt;
-          await sleep(retryAfter * 1000);
+          await sleep(
+            retryDelay(attempt, parseRetryAfter(response.headers.get("Retry-After"), timeout)),
+          );
           continue;
         }
 
@@ -68,6 +137,7 @@ async function httpRequest(
       }
 
       const raw = await response.text();
+      stats.responseBytes = Buffer.byteLength(raw);
       if (raw.length > config.httpMaxResponseBytes) {
         throw new CliError(
           `[ERROR] Response too large from Codecks API (>${config.httpMaxResponseBytes} bytes).`,
@@ -89,7 +159,7 @@ async function httpRequest(
           await sleep(config.httpRetryBase * 2 ** attempt * 1000);
           continue;
         }
-        throw new CliError(
+        throw new TransientError(
           `[ERROR] Request timed out after ${timeout / 1000} seconds. Is Codecks API reachable?`,
         );
       }
@@ -99,7 +169,7 @@ async function httpRequest(
         continue;
       }
 
-      throw new CliError(
+      throw new TransientError(
         `[ERROR] Connection failed: ${err instanceof Error ? err.message : String(err)}`,
       );
     }
@@ -112,6 +182,26 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds,
+ * capped at `maxMs`. Returns 0 when the header is missing or unreadable.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  maxMs: number,
+  now = Date.now(),
+): number {
+  if (!value) return 0;
+  const trimmed = value.trim();
+  const ms = /^\d+$/.test(trimmed) ? Number(trimmed) * 1000 : Date.parse(trimmed) - now;
+  return Number.isFinite(ms) ? Math.min(Math.max(0, ms), maxMs) : 0;
+}
+
+/** Exponential backoff for a retry, but never shorter than the server asked for. */
+function retryDelay(attempt: number, retryAfterMs: number): number {
+  return Math.max(config.httpRetryBase * 2 ** attempt * 1000, retryAfterMs);
+}
+
 // ---------------------------------------------------------------------------
 // Authenticated request helpers
 // ---------------------------------------------------------------------------
@@ -119,12 +209,13 @@ function sleep(ms: number): Promise<void> {
 export async function sessionRequest(
   path = "/",
   data?: unknown,
-  options: { method?: string; idempotent?: boolean } = {},
+  options: { method?: string; idempotent?: boolean; credentials?: CodecksCredentials } = {},
 ): Promise<Record<string, unknown>> {
+  const { sessionToken, account } = options.credentials ?? config;
   const url = BASE_URL + path;
   const headers: Record<string, string> = {
-    "X-Auth-Token": config.sessionToken,
-    "X-Account": config.account,
+    "X-Auth-Token": sessionToken,
+    "X-Account": account,
     "X-Request-Id": randomUUID(),
   };
 
@@ -145,10 +236,15 @@ export async function sessionRequest(
         );
       }
       if (err.code === 429) {
-        throw new CliError(
+        throw new TransientError(
           "[ERROR] Rate limit reached (Codecks allows ~40 req/5s). Wait and retry.",
+          false,
+          parseRetryAfter(err.headers["retry-after"], Math.max(1000, config.httpTimeout)),
         );
       }
+      if (RETRYABLE_HTTP_CODES.has(err.code)) {
+        throw new TransientError(`[ERROR] HTTP ${err.code}: ${err.reason}`);
+      }
       throw new CliError(`[ERROR] HTTP ${err.code}: ${err.reason}`);
     }
     throw err;
@@ -157,9 +253,10 @@ export async function sessionRequest(
 
 export async function reportRequest(
   content: string,
-  options: { severity?: string; email?: string } = {},
+  options: { severity?: string; email?: string; credentials?: CodecksCredentials } = {},
 ): Promise<Record<string, unknown>> {
-  if (!config.reportToken) {
+  const { reportToken } = options.credentials ?? config;
+  if (!reportToken) {
     throw new CliError("[ERROR] CODECKS_REPORT_TOKEN not set. Generate one via the CLI.");
   }
 
@@ -167,7 +264,7 @@ export async function reportRequest(
   if (options.severity) payload.severity = options.severity;
   if (options.email) payload.userEmail = options.email;
 
-  const url = `${BASE_URL}/user-report/v1/create-report?token=${config.reportToken}`;
+  const url = `${BASE_URL}/user-report/v1/create-report?token=${reportToken}`;
   const headers: Record<string, string> = { "X-Request-Id": randomUUID() };
 
   try {
@@ -185,14 +282,57 @@ export async function reportRequest(
 // Query and dispatch helpers
 // ---------------------------------------------------------------------------
 
-export async function query(q: Record<string, unknown>): Promise<Record<string, unknown>> {
-  const result = await sessionRequest("/", { query: q }, { idempotent: true });
+export async function query(
+  q: Record<string, unknown>,
+  credentials?: CodecksCredentials,
+): Promise<Record<string, unknown>> {
+  const result = await sessionRequest("/", { query: q }, { idempotent: true, credentials });
   delete result._root;
   return result;
 }
 
-export async function dispatch(path: string, data: unknown): Promise<Record<string, unknown>> {
-  return sessionRequest(`/dispatch/${path}`, data);
+/**
+ * Run a mutation. Transient failures are retried only when that is safe:
+ * the server certainly rejected the request (429), the mutation is idempotent,
+ * or `verify` re-reads Codecks and confirms the change has not landed yet.
+ * Rate-limited retries wait at least as long as the server's `Retry-After` asks.
+ * When `verify` reports the change already landed, returns `{ verified: true }`.
+ */
+export async function dispatch(
+  path: string,
+  data: unknown,
+  options: {
+    idempotent?: boolean;
+    verify?: () => Promise<boolean>;
+    credentials?: CodecksCredentials;
+  } = {},
+): Promise<Record<string, unknown>> {
+  const maxAttempts = 1 + Math.max(0, config.httpMaxRetries);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sessionRequest(`/dispatch/${path}`, data, {
+        credentials: options.credentials,
+      });
+    } catch (err) {
+      if (!(err instanceof TransientError) || attempt >= maxAttempts - 1) throw err;
+      const safe = !err.mayHaveLanded || options.idempotent || options.verify;
+      if (!safe) throw err;
+
+      await sleep(retryDelay(attempt, err.retryAfterMs));
+      if (err.mayHaveLanded && !options.idempotent && options.verify) {
+        // If the state can't be re-read, retrying could apply the change twice
+        const landed = await options.verify().catch(() => null);
+        if (landed === null) throw err;
+        if (landed) {
+          debugLog(`dispatch ${path}: change already applied, not retrying`);
+          return { verified: true };
+        }
+      }
+      recordApiRetry(`/dispatch/${path}`);
+      debugLog(`dispatch ${path}: retry ${attempt + 1} after ${err.message}`);
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
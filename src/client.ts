@@ -7,8 +7,10 @@
  */
 
 import { query, dispatch, reportRequest } from "./api.js";
-import { config } from "./config.js";
-import { CliError, SetupError } from "./errors.js";
+import { config, VALID_PRIORITIES, type CodecksCredentials } from "./config.js";
+import { CliError, DuplicateCardError, ScaffoldError, SetupError } from "./errors.js";
+import { findDuplicates } from "./duplicates.js";
+import { scaffoldLanes } from "./lanes.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -43,6 +45,44 @@ function parseMultiValue(value: string, allowed: Set<string>, label: string): st
   return values;
 }
 
+/** Find an entity by case-insensitive title, or throw listing the valid names */
+function findByTitle(
+  entities: Record<string, unknown>[],
+  name: string,
+  label: string,
+  field = "title",
+): Record<string, unknown> {
+  const wanted = name.trim().toLowerCase();
+  const match = entities.find((e) => String(e[field] ?? "").toLowerCase() === wanted);
+  if (!match) {
+    const valid = entities.map((e) => String(e[field] ?? "")).filter(Boolean);
+    throw new CliError(
+      `[ERROR] ${label} '${name}' not found.` + (valid.length ? ` Valid: ${valid.join(", ")}` : ""),
+    );
+  }
+  return match;
+}
+
+/** 'none' (schema wording) and 'null' (legacy) both clear a field */
+function isClearValue(value: string): boolean {
+  return value === "none" || value === "null";
+}
+
+/** Stable string form for comparing field values (arrays ignore order) */
+function comparable(value: unknown): string {
+  if (Array.isArray(value)) return JSON.stringify(value.map((v) => String(v)).sort());
+  return JSON.stringify(value ?? null);
+}
+
+/** Parse a YYYY-MM-DD filter value into a Date at UTC midnight */
+function parseDateFilter(value: string, label: string): Date {
+  const d = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+  if (!d || isNaN(d.getTime())) {
+    throw new CliError(`[ERROR] Invalid ${label}: '${value}'. Expected YYYY-MM-DD.`);
+  }
+  return d;
+}
+
 const VALID_STATUSES = new Set([
   "not_started",
   "started",
@@ -56,11 +96,82 @@ const VALID_STATUSES = new Set([
 // CodecksClient
 // ---------------------------------------------------------------------------
 
+type MetadataKind = "decks" | "projects" | "milestones" | "tags" | "users";
+
+/** Progress and cancellation for batch operations (update_cards, split_features). */
+export interface BatchControl {
+  /** Checked between items; the batch stops cleanly and returns a partial result. */
+  signal?: AbortSignal;
+  /** Called before each item with the count done so far, and once more at the end. */
+  onProgress?: (progress: number, total: number, message: string) => Promise<void>;
+}
+
 export class CodecksClient {
+  private readonly metadataCache = new Map<
+    MetadataKind,
+    { expires: number; value: Promise<Record<string, unknown>> }
+  >();
+
+  private discoveredUserId: Promise<string> | null = null;
+
+  /**
+   * Defaults to the env/profile credentials in `config`; HTTP sessions pass their own.
+   * `source` says where non-default credentials came from (e.g. "session headers").
+   */
+  constructor(
+    private activeCredentials: CodecksCredentials = config,
+    private source = "config",
+  ) {}
+
+  get credentials(): CodecksCredentials {
+    return this.activeCredentials;
+  }
+
+  get credentialSource(): string {
+    return this.source;
+  }
+
+  /** Act as a different Codecks identity (e.g. another profile). Drops all cached state. */
+  switchCredentials(credentials: CodecksCredentials, source: string): void {
+    this.activeCredentials = credentials;
+    this.source = source;
+    this.discoveredUserId = null;
+    this.metadataCache.clear();
+  }
+
   // ---- Account ----
 
+  /**
+   * The acting user's ID: CODECKS_USER_ID when set, otherwise the session's
+   * logged-in user, looked up once and cached.
+   */
+  async currentUserId(): Promise<string> {
+    if (this.credentials.userId) return this.credentials.userId;
+    if (!this.credentials.sessionToken) {
+      throw new SetupError(
+        "[ERROR] CODECKS_USER_ID not set and no CODECKS_TOKEN to discover it from.",
+      );
+    }
+    this.discoveredUserId ??= this.discoverUserId().catch((err: unknown) => {
+      this.discoveredUserId = null; // don't cache failures
+      throw err;
+    });
+    return this.discoveredUserId;
+  }
+
+  private async discoverUserId(): Promise<string> {
+    const result = await this.query({ _root: [{ loggedInUser: ["id", "name"] }] });
+    const [user] = this.extractEntityMap(result, "user");
+    if (!user?.id) {
+      throw new SetupError(
+        "[ERROR] Could not discover the current user. Set CODECKS_USER_ID explicitly.",
+      );
+    }
+    return String(user.id);
+  }
+
   async getAccount(): Promise<Record<string, unknown>> {
-    const result = await query({
+    const result = await this.query({
       _root: [{ account: ["name", "id"] }],
     });
     const acct = result.account as Record<string, unknown> | undefined;
@@ -89,6 +200,7 @@ export class CodecksClient {
       updatedBefore?: string;
       archived?: boolean;
       includeStats?: boolean;
+      refresh?: boolean;
       limit?: number;
       offset?: number;
     } = {},
@@ -108,6 +220,7 @@ export class CodecksClient {
       { assignee: ["name", "id"] },
     ];
     if (options.search) cardFields.push("content");
+    if (options.refresh) this.invalidateMetadata();
 
     // Build server-side filter
     const cardQuery: Record<string, unknown> = {
@@ -125,25 +238,70 @@ export class CodecksClient {
       }
     }
 
+    // Priority filter ("null" = no priority; single value = server-side)
+    let clientPriorityFilter: Array<string | null> | null = null;
+    if (options.priority) {
+      const priorities = parseMultiValue(options.priority, VALID_PRIORITIES, "priority").map((p) =>
+        p === "null" ? null : p,
+      );
+      if (priorities.length === 1) {
+        cardQuery.priority = priorities[0];
+      } else {
+        clientPriorityFilter = priorities;
+      }
+    }
+
     // Resolve deck filter to ID
     if (options.deck) {
+      cardQuery.deckId = (await this.resolveDeck(options.deck)).id;
+    }
+
+    // Resolve project filter to the set of deck IDs it owns
+    let projectDeckIds: Set<string> | null = null;
+    if (options.project) {
+      const project = await this.resolveProject(options.project);
       const decksResult = await this.listDecks();
       const decks = (decksResult.decks ?? []) as Record<string, unknown>[];
-      const deck = decks.find(
-        (d) => String(d.title ?? "").toLowerCase() === options.deck!.toLowerCase(),
+      projectDeckIds = new Set(
+        decks.filter((d) => d.projectId === project.id).map((d) => String(d.id)),
+      );
+    }
+
+    // Resolve milestone filter to ID
+    if (options.milestone) {
+      cardQuery.milestoneId = (await this.resolveMilestone(options.milestone)).id;
+    }
+
+    // Resolve tag filter to ID (matched client-side against masterTags)
+    let tagId: string | null = null;
+    if (options.tag) {
+      tagId = String((await this.resolveTag(options.tag)).id);
+    }
+
+    if (options.cardType === "doc") cardQuery.isDoc = true;
+    if (options.hero) cardQuery.parentCardId = options.hero;
+
+    const updatedAfter = options.updatedAfter
+      ? parseDateFilter(options.updatedAfter, "updated_after")
+      : null;
+    const updatedBefore = options.updatedBefore
+      ? parseDateFilter(options.updatedBefore, "updated_before")
+      : null;
+
+    // Hand filter: IDs of cards in the current user's hand
+    let handCardIds: Set<string> | null = null;
+    if (options.handOnly) {
+      const [entries, userId] = await Promise.all([this.listHand(), this.currentUserId()]);
+      handCardIds = new Set(
+        entries.filter((e) => !e.user || e.user === userId).map((e) => String(e.card)),
       );
-      if (deck) {
-        cardQuery.deckId = deck.id;
-      } else {
-        throw new CliError(`[ERROR] Deck '${options.deck}' not found.`);
-      }
     }
 
     const q = {
       _root: [{ account: [{ [filteredKey("cards", cardQuery)]: cardFields }] }],
     };
 
-    const result = await query(q);
+    const result = await this.query(q);
     let cards = this.extractCards(result);
 
     // Client-side filtering
@@ -151,6 +309,42 @@ export class CodecksClient {
       const allowed = new Set(clientStatusFilter);
       cards = cards.filter((c) => allowed.has(String(c.status ?? "")));
     }
+    if (clientPriorityFilter) {
+      const allowed = new Set(clientPriorityFilter);
+      cards = cards.filter((c) => allowed.has((c.priority as string | null | undefined) ?? null));
+    }
+    if (projectDeckIds) {
+      const allowed = projectDeckIds;
+      cards = cards.filter((c) => allowed.has(String(c.deckId ?? "")));
+    }
+    if (tagId) {
+      const wanted = tagId;
+      cards = cards.filter((c) =>
+        ((c.masterTags ?? []) as unknown[]).some((t) => {
+          const id = t !== null && typeof t === "object" ? (t as Record<string, unknown>).id : t;
+          return String(id) === wanted;
+        }),
+      );
+    }
+    if (options.cardType === "hero") {
+      cards = cards.filter((c) => {
+        const info = c.childCardInfo as Record<string, unknown> | undefined;
+        return Number(info?.count ?? 0) > 0;
+      });
+    }
+    if (handCardIds) {
+      const allowed = handCardIds;
+      cards = cards.filter((c) => allowed.has(String(c.id)));
+    }
+    if (updatedAfter || updatedBefore) {
+      cards = cards.filter((c) => {
+        const updated = parseIsoTimestamp(c.lastUpdatedAt);
+        if (!updated) return false;
+        if (updatedAfter && updated < updatedAfter) return false;
+        if (updatedBefore && updated >= updatedBefore) return false;
+        return true;
+      });
+    }
     if (options.search) {
       const term = options.search.toLowerCase();
       cards = cards.filter(
@@ -243,7 +437,7 @@ export class CodecksClient {
       _root: [{ account: [{ [filteredKey("cards", cardFilter)]: cardFields }] }],
     };
 
-    const result = await query(q);
+    const result = await this.query(q);
     const cards = this.extractCards(result);
     if (cards.length === 0) {
       throw new CliError(`[ERROR] Card not found: ${cardId}`);
@@ -253,49 +447,100 @@ export class CodecksClient {
 
   // ---- Decks ----
 
-  async listDecks(): Promise<Record<string, unknown>> {
-    const result = await query({
-      _root: [{ account: [{ decks: ["title", "id", "projectId"] }] }],
+  async listDecks(options: { refresh?: boolean } = {}): Promise<Record<string, unknown>> {
+    return this.cachedMetadata("decks", options.refresh, async () => {
+      const result = await this.query({
+        _root: [{ account: [{ decks: ["title", "id", "projectId"] }] }],
+      });
+      const decks = this.extractList(result, "decks");
+      return { decks };
     });
-    const decks = this.extractList(result, "decks");
-    return { decks };
   }
 
   // ---- Projects ----
 
-  async listProjects(): Promise<Record<string, unknown>> {
-    const result = await query({
-      _root: [
-        {
-          account: [{ projects: ["id", "title", { decks: ["id", "title"] }] }],
-        },
-      ],
+  async listProjects(options: { refresh?: boolean } = {}): Promise<Record<string, unknown>> {
+    return this.cachedMetadata("projects", options.refresh, async () => {
+      const result = await this.query({
+        _root: [
+          {
+            account: [{ projects: ["id", "title", { decks: ["id", "title"] }] }],
+          },
+        ],
+      });
+      return { projects: this.extractList(result, "projects") };
     });
-    return { projects: this.extractList(result, "projects") };
   }
 
   // ---- Milestones ----
 
-  async listMilestones(): Promise<Record<string, unknown>> {
-    const result = await query({
-      _root: [{ account: [{ milestones: ["id", "title"] }] }],
+  async listMilestones(options: { refresh?: boolean } = {}): Promise<Record<string, unknown>> {
+    return this.cachedMetadata("milestones", options.refresh, async () => {
+      const result = await this.query({
+        _root: [{ account: [{ milestones: ["id", "title"] }] }],
+      });
+      return { milestones: this.extractList(result, "milestones") };
     });
-    return { milestones: this.extractList(result, "milestones") };
   }
 
   // ---- Tags ----
 
-  async listTags(): Promise<Record<string, unknown>> {
-    const result = await query({
-      _root: [{ account: [{ masterTags: ["title", "id", "color", "emoji"] }] }],
+  async listTags(options: { refresh?: boolean } = {}): Promise<Record<string, unknown>> {
+    return this.cachedMetadata("tags", options.refresh, async () => {
+      const result = await this.query({
+        _root: [{ account: [{ masterTags: ["title", "id", "color", "emoji"] }] }],
+      });
+      return { tags: this.extractList(result, "masterTags") };
     });
-    return { tags: this.extractList(result, "masterTags") };
+  }
+
+  // ---- Users ----
+
+  async listUsers(options: { refresh?: boolean } = {}): Promise<Record<string, unknown>> {
+    return this.cachedMetadata("users", options.refresh, async () => {
+      const result = await this.query({
+        _root: [{ account: [{ roles: ["role", { user: ["id", "name"] }] }] }],
+      });
+      return { users: this.extractEntityMap(result, "user") };
+    });
+  }
+
+  // ---- Metadata cache ----
+
+  /** Drop cached metadata so the next read goes to Codecks. No kinds = everything. */
+  invalidateMetadata(...kinds: MetadataKind[]): void {
+    if (kinds.length === 0) {
+      this.metadataCache.clear();
+      return;
+    }
+    for (const kind of kinds) this.metadataCache.delete(kind);
+  }
+
+  private cachedMetadata(
+    kind: MetadataKind,
+    refresh: boolean | undefined,
+    load: () => Promise<Record<string, unknown>>,
+  ): Promise<Record<string, unknown>> {
+    const ttl = config.metadataTtl;
+    const now = Date.now();
+    const entry = this.metadataCache.get(kind);
+    if (!refresh && ttl > 0 && entry && entry.expires > now) return entry.value;
+
+    // Cache the promise so concurrent lookups share one request
+    const value = load();
+    if (ttl > 0) {
+      this.metadataCache.set(kind, { expires: now + ttl, value });
+      value.catch(() => {
+        if (this.metadataCache.get(kind)?.value === value) this.metadataCache.delete(kind);
+      });
+    }
+    return value;
   }
 
   // ---- Activity ----
 
   async listActivity(limit = 20): Promise<Record<string, unknown>> {
-    const result = await query({
+    const result = await this.query({
       _root: [
         {
           account: [
@@ -394,31 +639,37 @@ export class CodecksClient {
   // ---- Hand ----
 
   async listHand(): Promise<Record<string, unknown>[]> {
-    const result = await query({
+    const result = await this.query({
       _root: [{ account: [{ queueEntries: ["card", "sortIndex", "user"] }] }],
     });
     return this.extractList(result, "queueEntries");
   }
 
   async addToHand(cardIds: string[]): Promise<Record<string, unknown>> {
-    const userId = config.userId;
-    if (!userId)
-      throw new CliError("[ERROR] CODECKS_USER_ID not set. Required for hand operations.");
-
-    const result = await dispatch("handQueue/setCardOrders", {
-      sessionId: crypto.randomUUID(),
-      userId,
-      cardIds,
-      draggedCardIds: cardIds,
-    });
+    const userId = await this.currentUserId();
+
+    const result = await this.dispatch(
+      "handQueue/setCardOrders",
+      {
+        sessionId: crypto.randomUUID(),
+        userId,
+        cardIds,
+        draggedCardIds: cardIds,
+      },
+      { idempotent: true },
+    );
     return { ok: true, added: cardIds.length, result };
   }
 
   async removeFromHand(cardIds: string[]): Promise<Record<string, unknown>> {
-    const result = await dispatch("handQueue/removeCards", {
-      sessionId: crypto.randomUUID(),
-      cardIds,
-    });
+    const result = await this.dispatch(
+      "handQueue/removeCards",
+      {
+        sessionId: crypto.randomUUID(),
+        cardIds,
+      },
+      { idempotent: true },
+    );
     return { ok: true, removed: cardIds.length, result };
   }
 
@@ -432,13 +683,37 @@ export class CodecksClient {
     severity?: string;
     doc?: boolean;
     allowDuplicate?: boolean;
+    /** A card the duplicate check ignores, e.g. the feature card being split. */
+    duplicateOf?: string;
     parent?: string;
+    owner?: string;
+    priority?: string;
+    effort?: number;
+    tags?: string[];
   }): Promise<Record<string, unknown>> {
+    // Listing cards needs a session, so the report-token path can't check for duplicates
+    if (!options.allowDuplicate && this.credentials.sessionToken) {
+      await this.assertNoDuplicates(options.title, options);
+    }
+
     const fullContent = `# ${options.title}${options.content ? "\n\n" + options.content : ""}`;
 
+    // Session path: real placement via dispatch. Report token is the fallback.
+    if (this.credentials.sessionToken) {
+      const created = await this.createCardViaSession(options, fullContent);
+      // Hashtags in content can create new account tags
+      this.invalidateMetadata("tags");
+      return created;
+    }
+    if (!this.credentials.reportToken) {
+      throw new SetupError("[ERROR] Card creation needs CODECKS_TOKEN or CODECKS_REPORT_TOKEN.");
+    }
+
     const result = await reportRequest(fullContent, {
       severity: options.severity,
+      credentials: this.credentials,
     });
+    this.invalidateMetadata("tags");
 
     const cardId = String(
       (result as Record<string, unknown>).id ??
@@ -446,47 +721,167 @@ export class CodecksClient {
         "unknown",
     );
 
-    return { ok: true, card_id: cardId, title: options.title };
+    const out: Record<string, unknown> = { ok: true, card_id: cardId, title: options.title };
+    if (options.deck || options.project || options.parent || options.doc) {
+      out.warnings = [
+        "Created via report token: deck/project/parent/doc placement was not applied. " +
+          "Set CODECKS_TOKEN to place cards directly.",
+      ];
+    }
+    if (options.owner || options.priority || options.effort != null || options.tags?.length) {
+      out.warnings = [
+        ...((out.warnings as string[] | undefined) ?? []),
+        "Created via report token: owner/priority/effort/tags were not applied.",
+      ];
+    }
+    if (!options.allowDuplicate) {
+      out.warnings = [
+        ...((out.warnings as string[] | undefined) ?? []),
+        "Created via report token: the duplicate-title check was skipped.",
+      ];
+    }
+    return out;
   }
 
-  async updateCards(options: {
-    cardIds: string[];
-    status?: string;
-    priority?: string;
-    effort?: string;
-    deck?: string;
-    title?: string;
-    content?: string;
-    milestone?: string;
-    hero?: string;
-    owner?: string;
-    tags?: string;
-    doc?: string;
-    continueOnError?: boolean;
-  }): Promise<Record<string, unknown>> {
+  /** Refuse to create a card whose title closely matches one in the same deck/project. */
+  private async assertNoDuplicates(
+    title: string,
+    scope: { deck?: string; project?: string; parent?: string; duplicateOf?: string },
+  ): Promise<void> {
+    const existing = await this.listCards({
+      deck: scope.deck,
+      project: scope.project,
+      hero: scope.deck || scope.project ? undefined : scope.parent,
+    });
+    const cards = ((existing.cards ?? []) as Record<string, unknown>[]).filter(
+      (c) => !scope.duplicateOf || c.id !== scope.duplicateOf,
+    );
+    const candidates = findDuplicates(title, cards);
+    if (candidates.length > 0) {
+      throw new DuplicateCardError(
+        `[ERROR] Possible duplicate of ${candidates.length} existing card(s): ` +
+          candidates.map((c) => `'${c.title}' (${c.card_id})`).join(", ") +
+          ". Pass allow_duplicate=true to create anyway.",
+        candidates,
+      );
+    }
+  }
+
+  private async createCardViaSession(
+    options: {
+      title: string;
+      deck?: string;
+      project?: string;
+      doc?: boolean;
+      parent?: string;
+      owner?: string;
+      priority?: string;
+      effort?: number;
+      tags?: string[];
+    },
+    fullContent: string,
+  ): Promise<Record<string, unknown>> {
+    let deckId: string | null = null;
+    let projectId: string | null = null;
+
+    if (options.deck) {
+      const deck = await this.resolveDeck(options.deck);
+      deckId = String(deck.id);
+      projectId = (deck.projectId as string | undefined) ?? null;
+    }
+    if (options.project) {
+      const project = await this.resolveProject(options.project);
+      if (projectId && projectId !== project.id) {
+        throw new CliError(
+          `[ERROR] Deck '${options.deck}' does not belong to project '${options.project}'.`,
+        );
+      }
+      projectId = String(project.id);
+    }
+    if (!deckId && options.parent) {
+      // Sub-cards land in their parent's deck unless told otherwise
+      const parent = await this.getCard(options.parent, {
+        includeContent: false,
+        includeConversations: false,
+      });
+      deckId = (parent.deckId as string | undefined) ?? null;
+    }
+    if (!deckId && !projectId) {
+      throw new CliError("[ERROR] Specify a deck or project for the new card.");
+    }
+
+    const userId = await this.currentUserId();
+    const assigneeId = options.owner ? (await this.resolveUser(options.owner)).id : null;
+    const masterTags: unknown[] = [];
+    for (const tag of options.tags ?? []) masterTags.push((await this.resolveTag(tag)).id);
+
+    const result = await this.dispatch("cards/create", {
+      assigneeId,
+      content: fullContent,
+      putOnHand: false,
+      deckId,
+      projectId,
+      milestoneId: null,
+      userId,
+      masterTags,
+      attachments: [],
+      effort: options.effort ?? null,
+      priority: options.priority && options.priority !== "null" ? options.priority : null,
+      childCards: [],
+      parentCardId: options.parent ?? null,
+      isDoc: options.doc ?? false,
+    });
+
+    const payload = (result.payload ?? result) as Record<string, unknown>;
+    const cardId = payload.id ?? payload.cardId;
+    if (typeof cardId !== "string") {
+      throw new CliError("[ERROR] Codecks did not return an ID for the created card.");
+    }
+
+    return {
+      ok: true,
+      card_id: cardId,
+      title: options.title,
+      deck_id: deckId,
+      parent_id: options.parent ?? null,
+      is_doc: options.doc ?? false,
+    };
+  }
+
+  async updateCards(
+    options: {
+      cardIds: string[];
+      status?: string;
+      priority?: string;
+      effort?: string;
+      deck?: string;
+      title?: string;
+      content?: string;
+      milestone?: string;
+      hero?: string;
+      owner?: string;
+      tags?: string;
+      doc?: string;
+      continueOnError?: boolean;
+    },
+    batch: BatchControl = {},
+  ): Promise<Record<string, unknown>> {
+    // Resolve every name up front so unknown names fail before anything is dispatched
+    const changes = await this.resolveCardChanges(options);
     const results: Record<string, unknown>[] = [];
+    const total = options.cardIds.length;
     let updated = 0;
+    const titles = batch.onProgress ? await this.cardTitles(options.cardIds) : new Map();
 
     for (const cardId of options.cardIds) {
-      const payload: Record<string, unknown> = { id: cardId };
-      if (options.status) payload.status = options.status;
-      if (options.priority) {
-        payload.priority = options.priority === "null" ? null : options.priority;
-      }
-      if (options.effort) {
-        payload.effort = options.effort === "null" ? null : parseInt(options.effort, 10);
-      }
-      if (options.title) payload.title = options.title;
-      if (options.content !== undefined) payload.content = options.content;
-      if (options.milestone) {
-        payload.milestoneId = options.milestone === "null" ? null : options.milestone;
-      }
-      if (options.owner) {
-        payload.assigneeId = options.owner === "null" ? null : options.owner;
-      }
+      if (batch.signal?.aborted) break;
+      await batch.onProgress?.(results.length, total, `Updating '${titles.get(cardId) ?? cardId}'`);
+      const payload: Record<string, unknown> = { id: cardId, ...changes };
 
       try {
-        const r = await dispatch("cards/update", payload);
+        const r = await this.dispatch("cards/update", payload, {
+          verify: () => this.cardHasFields(cardId, changes),
+        });
         results.push({ card_id: cardId, ok: true, result: r });
         updated++;
       } catch (err) {
@@ -496,9 +891,85 @@ export class CodecksClient {
       }
     }
 
+    if (updated > 0 && (options.content !== undefined || options.tags)) {
+      this.invalidateMetadata("tags");
+    }
+    const notAttempted = options.cardIds.slice(results.length);
+    const cancelled = batch.signal?.aborted === true && notAttempted.length > 0;
+    await batch.onProgress?.(results.length, total, cancelled ? "Cancelled" : "Done");
+    if (cancelled) {
+      return { ok: true, cancelled, updated, results, not_attempted: notAttempted };
+    }
     return { ok: updated > 0, updated, results };
   }
 
+  /** Translate update_cards options into a cards/update payload, resolving names to IDs. */
+  private async resolveCardChanges(options: {
+    status?: string;
+    priority?: string;
+    effort?: string;
+    deck?: string;
+    title?: string;
+    content?: string;
+    milestone?: string;
+    hero?: string;
+    owner?: string;
+    tags?: string;
+    doc?: string;
+  }): Promise<Record<string, unknown>> {
+    const changes: Record<string, unknown> = {};
+    if (options.status) changes.status = options.status;
+    if (options.priority) {
+      changes.priority = options.priority === "null" ? null : options.priority;
+    }
+    if (options.effort) {
+      if (isClearValue(options.effort)) {
+        changes.effort = null;
+      } else {
+        const effort = parseInt(options.effort, 10);
+        if (isNaN(effort)) {
+          throw new CliError(
+            `[ERROR] Invalid effort: '${options.effort}'. Use an integer or 'null'.`,
+          );
+        }
+        changes.effort = effort;
+      }
+    }
+    if (options.title) changes.title = options.title;
+    if (options.content !== undefined) changes.content = options.content;
+    if (options.deck) {
+      changes.deckId = (await this.resolveDeck(options.deck)).id;
+    }
+    if (options.milestone) {
+      changes.milestoneId = isClearValue(options.milestone)
+        ? null
+        : (await this.resolveMilestone(options.milestone)).id;
+    }
+    if (options.owner) {
+      changes.assigneeId = isClearValue(options.owner)
+        ? null
+        : (await this.resolveUser(options.owner)).id;
+    }
+    if (options.hero) {
+      changes.parentCardId = isClearValue(options.hero) ? null : options.hero;
+    }
+    if (options.tags) {
+      if (isClearValue(options.tags)) {
+        changes.masterTags = [];
+      } else {
+        const names = options.tags
+          .split(",")
+          .map((t) => t.trim())
+          .filter(Boolean);
+        const tagIds: unknown[] = [];
+        for (const name of names) tagIds.push((await this.resolveTag(name)).id);
+        changes.masterTags = tagIds;
+      }
+    }
+    if (options.doc) changes.isDoc = options.doc === "true";
+    return changes;
+  }
+
   async markDone(cardIds: string[]): Promise<Record<string, unknown>> {
     return this.updateCards({ cardIds, status: "done" });
   }
@@ -508,33 +979,39 @@ export class CodecksClient {
   }
 
   async archiveCard(cardId: string): Promise<Record<string, unknown>> {
-    const result = await dispatch("cards/update", {
-      id: cardId,
-      visibility: "archived",
-    });
+    const result = await this.dispatch(
+      "cards/update",
+      { id: cardId, visibility: "archived" },
+      { verify: () => this.cardHasFields(cardId, { visibility: "archived" }) },
+    );
     return { ok: true, card_id: cardId, result };
   }
 
   async unarchiveCard(cardId: string): Promise<Record<string, unknown>> {
-    const result = await dispatch("cards/update", {
-      id: cardId,
-      visibility: "default",
-    });
+    const result = await this.dispatch(
+      "cards/update",
+      { id: cardId, visibility: "default" },
+      { verify: () => this.cardHasFields(cardId, { visibility: "default" }) },
+    );
     return { ok: true, card_id: cardId, result };
   }
 
   async deleteCard(cardId: string): Promise<Record<string, unknown>> {
     // Two-step: archive first, then delete
-    await dispatch("cards/update", { id: cardId, visibility: "archived" });
-    const result = await dispatch("cards/bulkUpdate", {
-      ids: [cardId],
-      visibility: "deleted",
-      deleteFiles: false,
-    });
+    await this.dispatch(
+      "cards/update",
+      { id: cardId, visibility: "archived" },
+      { verify: () => this.cardHasFields(cardId, { visibility: "archived" }) },
+    );
+    const result = await this.dispatch(
+      "cards/bulkUpdate",
+      { ids: [cardId], visibility: "deleted", deleteFiles: false },
+      { verify: () => this.cardHasFields(cardId, { visibility: "deleted" }) },
+    );
     return { ok: true, card_id: cardId, result };
   }
 
-  // ---- Scaffolding (simplified) ----
+  // ---- Scaffolding ----
 
   async scaffoldFeature(options: {
     title: string;
@@ -550,58 +1027,139 @@ export class CodecksClient {
     priority?: string;
     effort?: number;
     allowDuplicate?: boolean;
+    duplicateOf?: string;
+    laneOverrides?: Record<string, { owner?: string; priority?: string; effort?: number }>;
   }): Promise<Record<string, unknown>> {
-    const hero = await this.createCard({
-      title: options.title,
-      content: options.description,
-      doc: false,
+    // Lane tags are a convenience: accounts without them still get their sub-cards
+    const accountTags = ((await this.listTags()).tags ?? []) as Record<string, unknown>[];
+    const known = new Set(accountTags.map((t) => String(t.title ?? "").toLowerCase()));
+    const warnings: string[] = [];
+
+    const lanes = scaffoldLanes(options).map(({ lane: l, deck }) => {
+      const override = options.laneOverrides?.[l.name] ?? {};
+      const tags = l.tags.filter((t) => known.has(t));
+      for (const missing of l.tags.filter((t) => !known.has(t))) {
+        warnings.push(`Tag '${missing}' not found: ${l.displayName} sub-card created without it.`);
+      }
+      return {
+        lane: l,
+        deck,
+        tags,
+        owner: override.owner ?? options.owner,
+        priority: override.priority ?? options.priority,
+        effort: override.effort ?? options.effort,
+      };
     });
 
-    const heroId = hero.card_id as string;
-    const subcards: Record<string, unknown>[] = [];
-
-    const lanes = [
-      { name: "Code", deck: options.codeDeck },
-      { name: "Design", deck: options.designDeck },
-    ];
-    if (!options.skipArt && options.artDeck) {
-      lanes.push({ name: "Art", deck: options.artDeck });
-    }
-    if (!options.skipAudio && options.audioDeck) {
-      lanes.push({ name: "Audio", deck: options.audioDeck });
+    // Resolve every deck and owner before creating anything
+    await this.resolveDeck(options.heroDeck);
+    if (options.owner) await this.resolveUser(options.owner);
+    for (const { deck, owner } of lanes) {
+      await this.resolveDeck(deck);
+      if (owner) await this.resolveUser(owner);
     }
 
-    for (const lane of lanes) {
-      const sub = await this.createCard({
-        title: `${options.title} - ${lane.name}`,
-        parent: heroId,
+    // Track everything created so a failure part-way through can be undone
+    const created: string[] = [];
+    const subcards: Record<string, unknown>[] = [];
+
+    try {
+      const hero = await this.createCard({
+        title: options.title,
+        content: options.description,
+        deck: options.heroDeck,
+        doc: false,
+        allowDuplicate: options.allowDuplicate,
+        duplicateOf: options.duplicateOf,
+        owner: options.owner,
+        priority: options.priority,
+        effort: options.effort,
       });
-      subcards.push({ lane: lane.name, card_id: sub.card_id });
+      const heroId = hero.card_id as string;
+      created.push(heroId);
+
+      for (const { lane, deck, tags, owner, priority, effort } of lanes) {
+        const sub = await this.createCard({
+          title: `${options.title} - ${lane.displayName}`,
+          content: lane.defaultChecklist.join("\n"),
+          deck,
+          parent: heroId,
+          allowDuplicate: true,
+          owner,
+          priority,
+          effort,
+          tags,
+        });
+        created.push(sub.card_id as string);
+        subcards.push({ lane: lane.name, card_id: sub.card_id, deck });
+      }
+
+      const out: Record<string, unknown> = {
+        ok: true,
+        hero_id: heroId,
+        title: options.title,
+        subcards,
+      };
+      if (warnings.length) out.warnings = warnings;
+      return out;
+    } catch (err) {
+      if (created.length === 0) throw err;
+
+      const msg = err instanceof Error ? err.message : String(err);
+      const { rolledBack, failed } = await this.rollbackCards(created);
+      throw new ScaffoldError(
+        `[ERROR] Scaffolding '${options.title}' failed: ${msg} ` +
+          `Rolled back ${rolledBack.length} of ${created.length} created card(s).`,
+        rolledBack,
+        failed,
+      );
     }
+  }
 
-    return {
-      ok: true,
-      hero_id: heroId,
-      title: options.title,
-      subcards,
-    };
+  /** Delete cards created by a failed operation, newest first. */
+  private async rollbackCards(
+    cardIds: string[],
+  ): Promise<{ rolledBack: string[]; failed: string[] }> {
+    const rolledBack: string[] = [];
+    const failed: string[] = [];
+    for (const cardId of [...cardIds].reverse()) {
+      try {
+        await this.deleteCard(cardId);
+        rolledBack.push(cardId);
+      } catch {
+        // Deletion failed; archiving at least hides the orphan
+        try {
+          await this.archiveCard(cardId);
+          rolledBack.push(cardId);
+        } catch {
+          failed.push(cardId);
+        }
+      }
+    }
+    return { rolledBack, failed };
   }
 
-  async splitFeatures(options: {
-    deck: string;
-    codeDeck: string;
-    designDeck: string;
-    artDeck?: string;
-    skipArt?: boolean;
-    audioDeck?: string;
-    skipAudio?: boolean;
-    priority?: string;
-    dryRun?: boolean;
-  }): Promise<Record<string, unknown>> {
+  async splitFeatures(
+    options: {
+      deck: string;
+      codeDeck: string;
+      designDeck: string;
+      artDeck?: string;
+      skipArt?: boolean;
+      audioDeck?: string;
+      skipAudio?: boolean;
+      priority?: string;
+      dryRun?: boolean;
+      /** Split only these feature cards (the ones the user confirmed). */
+      featureIds?: string[];
+    },
+    batch: BatchControl = {},
+  ): Promise<Record<string, unknown>> {
     const all = await this.listCards({ deck: options.deck });
     const cards = (all.cards ?? []) as Record<string, unknown>[];
     const features = cards.filter((c) => {
       const info = c.childCardInfo as Record<string, unknown> | undefined;
+      if (options.featureIds && !options.featureIds.includes(String(c.id))) return false;
       return !info || (info.count ?? 0) === 0;
     });
 
@@ -618,6 +1176,8 @@ export class CodecksClient {
     const details: Record<string, unknown>[] = [];
 
     for (const feature of features) {
+      if (batch.signal?.aborted) break;
+      await batch.onProgress?.(details.length, features.length, `Splitting '${feature.title}'`);
       try {
         const result = await this.scaffoldFeature({
           title: feature.title as string,
@@ -629,46 +1189,65 @@ export class CodecksClient {
           audioDeck: options.audioDeck,
           skipAudio: options.skipAudio,
           priority: options.priority,
+          // The source feature card shares the title; any other match is an earlier split
+          duplicateOf: feature.id as string,
         });
         details.push(result);
         processed++;
       } catch (err) {
-        details.push({
+        const detail: Record<string, unknown> = {
           ok: false,
           title: feature.title,
           error: err instanceof Error ? err.message : String(err),
-        });
+        };
+        if (err instanceof ScaffoldError) {
+          detail.rolled_back = err.rolledBack;
+          detail.rollback_failed = err.rollbackFailed;
+        }
+        details.push(detail);
       }
     }
 
+    // Every attempted feature adds one detail entry
+    const notStarted = features.slice(details.length);
+    const cancelled = batch.signal?.aborted === true && notStarted.length > 0;
+    await batch.onProgress?.(details.length, features.length, cancelled ? "Cancelled" : "Done");
     return {
       ok: true,
       features_processed: processed,
       features_skipped: features.length - processed,
       details,
+      ...(cancelled && {
+        cancelled,
+        features_not_started: notStarted.map((f) => ({ id: f.id, title: f.title })),
+      }),
     };
   }
 
   // ---- Comments ----
 
   async createComment(cardId: string, message: string): Promise<Record<string, unknown>> {
-    const userId = config.userId;
-    if (!userId) throw new CliError("[ERROR] CODECKS_USER_ID not set.");
-
-    const result = await dispatch("resolvables/create", {
-      cardId,
-      userId,
-      content: message,
-      context: "comment",
-    });
+    const userId = await this.currentUserId();
+
+    // Snapshot matching entries so a retry can tell whether this comment already landed
+    const before = await this.countCommentEntries(cardId, message);
+    const result = await this.dispatch(
+      "resolvables/create",
+      {
+        cardId,
+        userId,
+        content: message,
+        context: "comment",
+      },
+      { verify: async () => (await this.countCommentEntries(cardId, message)) > before },
+    );
     return { ok: true, card_id: cardId, result };
   }
 
   async replyComment(threadId: string, message: string): Promise<Record<string, unknown>> {
-    const userId = config.userId;
-    if (!userId) throw new CliError("[ERROR] CODECKS_USER_ID not set.");
+    const userId = await this.currentUserId();
 
-    const result = await dispatch("resolvables/comment", {
+    const result = await this.dispatch("resolvables/comment", {
       resolvableId: threadId,
       content: message,
       authorId: userId,
@@ -677,30 +1256,37 @@ export class CodecksClient {
   }
 
   async closeComment(threadId: string, cardId: string): Promise<Record<string, unknown>> {
-    const userId = config.userId;
-    if (!userId) throw new CliError("[ERROR] CODECKS_USER_ID not set.");
-
-    const result = await dispatch("resolvables/close", {
-      id: threadId,
-      isClosed: true,
-      cardId,
-      closedBy: userId,
-    });
+    const userId = await this.currentUserId();
+
+    const result = await this.dispatch(
+      "resolvables/close",
+      {
+        id: threadId,
+        isClosed: true,
+        cardId,
+        closedBy: userId,
+      },
+      { idempotent: true },
+    );
     return { ok: true, thread_id: threadId, result };
   }
 
   async reopenComment(threadId: string, cardId: string): Promise<Record<string, unknown>> {
-    const result = await dispatch("resolvables/reopen", {
-      id: threadId,
-      isClosed: false,
-      cardId,
-    });
+    const result = await this.dispatch(
+      "resolvables/reopen",
+      {
+        id: threadId,
+        isClosed: false,
+        cardId,
+      },
+      { idempotent: true },
+    );
     return { ok: true, thread_id: threadId, result };
   }
 
   async listConversations(cardId: string): Promise<Record<string, unknown>> {
     const cardFilter = { cardId, visibility: "default" };
-    const result = await query({
+    const result = await this.query({
       _root: [
         {
           account: [
@@ -725,8 +1311,93 @@ export class CodecksClient {
     return result;
   }
 
+  // ---- Name resolution ----
+
+  async resolveDeck(name: string): Promise<Record<string, unknown>> {
+    const decks = ((await this.listDecks()).decks ?? []) as Record<string, unknown>[];
+    return findByTitle(decks, name, "Deck");
+  }
+
+  async resolveProject(name: string): Promise<Record<string, unknown>> {
+    const projects = ((await this.listProjects()).projects ?? []) as Record<string, unknown>[];
+    return findByTitle(projects, name, "Project");
+  }
+
+  async resolveUser(name: string): Promise<Record<string, unknown>> {
+    const users = ((await this.listUsers()).users ?? []) as Record<string, unknown>[];
+    return findByTitle(users, name, "User", "name");
+  }
+
+  async resolveMilestone(name: string): Promise<Record<string, unknown>> {
+    const milestones = ((await this.listMilestones()).milestones ?? []) as Record<
+      string,
+      unknown
+    >[];
+    return findByTitle(milestones, name, "Milestone");
+  }
+
+  async resolveTag(name: string): Promise<Record<string, unknown>> {
+    const tags = ((await this.listTags()).tags ?? []) as Record<string, unknown>[];
+    return findByTitle(tags, name.replace(/^#/, ""), "Tag");
+  }
+
   // ---- Internal helpers ----
 
+  private query(q: Record<string, unknown>): Promise<Record<string, unknown>> {
+    return query(q, this.credentials);
+  }
+
+  private dispatch(
+    path: string,
+    data: unknown,
+    options: { idempotent?: boolean; verify?: () => Promise<boolean> } = {},
+  ): Promise<Record<string, unknown>> {
+    return dispatch(path, data, { ...options, credentials: this.credentials });
+  }
+
+  /** Re-read a card and check whether it already carries the given field values. */
+  private async cardHasFields(cardId: string, expected: Record<string, unknown>): Promise<boolean> {
+    const { visibility = "default", ...fields } = expected;
+    const q = {
+      _root: [
+        {
+          account: [
+            { [filteredKey("cards", { cardId, visibility })]: ["title", ...Object.keys(fields)] },
+          ],
+        },
+      ],
+    };
+    const cards = this.extractCards(await this.query(q));
+    if (cards.length === 0) return false;
+    const card = cards[0];
+    return Object.entries(fields).every(
+      ([key, value]) => comparable(card[key]) === comparable(value),
+    );
+  }
+
+  /** Titles of several cards in one query, for progress messages. Missing cards are left out. */
+  private async cardTitles(cardIds: string[]): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    try {
+      const q = {
+        _root: [{ account: [{ [filteredKey("cards", { cardId: cardIds })]: ["title"] }] }],
+      };
+      for (const card of this.extractCards(await this.query(q))) {
+        if (typeof card.title === "string") titles.set(String(card.id), card.title);
+      }
+    } catch {
+      // Progress falls back to card IDs
+    }
+    return titles;
+  }
+
+  /** Count comment entries on a card whose content matches exactly. */
+  private async countCommentEntries(cardId: string, content: string): Promise<number> {
+    const result = await this.listConversations(cardId);
+    return this.extractEntityMap(result, "resolvableEntry").filter((e) => e.content === content)
+      .length;
+  }
+
   private extractCards(result: Record<string, unknown>): Record<string, unknown>[] {
     // Codecks returns { card: { <uuid>: {...}, <uuid>: {...} } }
     return this.extractEntityMap(result, "card");
@@ -750,10 +1421,10 @@ export class CodecksClient {
   ): Record<string, unknown>[] {
     const entityMap = result[key] as Record<string, unknown> | undefined;
     if (entityMap && typeof entityMap === "object" && !Array.isArray(entityMap)) {
-      return Object.values(entityMap).filter((v) => typeof v === "object" && v !== null) as Record<
-        string,
-        unknown
-      >[];
+      // Entity maps are keyed by ID; carry the key along when the entity omits it
+      return Object.entries(entityMap)
+        .filter(([, v]) => typeof v === "object" && v !== null)
+        .map(([id, v]) => ({ id, ...(v as Record<string, unknown>) }));
     }
     return [];
   }
@@ -0,0 +1,94 @@
+/**
+ * Argument completion — suggests deck, project, milestone, tag and user names for prompt
+ * arguments and resource templates. Names come from the client's metadata cache, so typing
+ * doesn't cost a Codecks request per keystroke.
+ */
+
+import type { CodecksClient } from "./client.js";
+
+export type NameKind = "deck" | "project" | "milestone" | "tag" | "user";
+
+/** MCP allows up to 100 values per completion; a short list is easier to pick from. */
+const MAX_SUGGESTIONS = 20;
+
+async function loadEntities(
+  client: CodecksClient,
+  kind: NameKind,
+): Promise<Record<string, unknown>[]> {
+  switch (kind) {
+    case "deck":
+      return ((await client.listDecks()).decks ?? []) as Record<string, unknown>[];
+    case "project":
+      return ((await client.listProjects()).projects ?? []) as Record<string, unknown>[];
+    case "milestone":
+      return ((await client.listMilestones()).milestones ?? []) as Record<string, unknown>[];
+    case "tag":
+      return ((await client.listTags()).tags ?? []) as Record<string, unknown>[];
+    case "user":
+      return ((await client.listUsers()).users ?? []) as Record<string, unknown>[];
+  }
+}
+
+/** Prefix matches first, then substring matches, case-insensitive. */
+export function rankMatches(candidates: string[], value: string): string[] {
+  const wanted = value.trim().toLowerCase();
+  const unique = [...new Set(candidates.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+  const prefix = unique.filter((c) => c.toLowerCase().startsWith(wanted));
+  const inner = unique.filter(
+    (c) => !c.toLowerCase().startsWith(wanted) && c.toLowerCase().includes(wanted),
+  );
+  return [...prefix, ...inner].slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Names of `kind` matching what the user typed so far. Never throws: without credentials
+ * or on a Codecks error there is simply nothing to suggest.
+ */
+export async function suggestNames(
+  client: CodecksClient,
+  kind: NameKind,
+  value: string | undefined,
+): Promise<string[]> {
+  try {
+    const field = kind === "user" ? "name" : "title";
+    const names = (await loadEntities(client, kind)).map((e) => String(e[field] ?? ""));
+    if (kind !== "tag") return rankMatches(names, value ?? "");
+
+    // Tags are comma-separated: complete the last entry, keep the ones before it
+    const parts = (value ?? "").split(",");
+    const last = parts.pop()!.replace(/^\s*#?/, "");
+    const head = parts.map((p) => p.trim()).filter(Boolean);
+    const taken = new Set(head.map((p) => p.replace(/^#/, "").toLowerCase()));
+    return rankMatches(
+      names.filter((n) => !taken.has(n.toLowerCase())),
+      last,
+    ).map((n) => [...head, n].join(", "));
+  } catch {
+    return [];
+  }
+}
+
+/** Milestone IDs whose ID or title matches, for `codecks://milestone/{id}`. */
+export async function suggestMilestoneIds(
+  client: CodecksClient,
+  value: string | undefined,
+): Promise<string[]> {
+  try {
+    const wanted = (value ?? "").trim().toLowerCase();
+    const milestones = await loadEntities(client, "milestone");
+    return milestones
+      .filter(
+        (m) =>
+          String(m.id ?? "")
+            .toLowerCase()
+            .startsWith(wanted) ||
+          String(m.title ?? "")
+            .toLowerCase()
+            .includes(wanted),
+      )
+      .map((m) => String(m.id))
+      .slice(0, MAX_SUGGESTIONS);
+  } catch {
+    return [];
+  }
+}
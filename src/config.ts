@@ -1,10 +1,12 @@
 /**
  * Environment configuration and constants for codecks-mcp.
- * Reads from environment variables (or .env file via dotenv if available).
+ * Reads from environment variables (or .env file via dotenv if available),
+ * falling back to the active profile in the user's config file.
  */
 
 import { readFileSync, existsSync } from "node:fs";
-import { resolve } from "node:path";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
 
 // ---------------------------------------------------------------------------
 // .env loader (zero-dependency, like the Python version)
@@ -28,8 +30,136 @@ function loadEnvFile(envPath: string): Record<string, string> {
 // Load .env from CWD
 const dotenv = loadEnvFile(resolve(process.cwd(), ".env"));
 
+// ---------------------------------------------------------------------------
+// Config file profiles
+// ---------------------------------------------------------------------------
+
+/**
+ * Profile keys and the env variables they stand in for. Only what differs per Codecks account
+ * (credentials and outbound API settings); server settings such as the HTTP transport, tool
+ * policy and response mode belong to the deployment and stay in the environment.
+ */
+const PROFILE_KEYS: Record<string, string> = {
+  token: "CODECKS_TOKEN",
+  account: "CODECKS_ACCOUNT",
+  user_id: "CODECKS_USER_ID",
+  report_token: "CODECKS_REPORT_TOKEN",
+  access_key: "CODECKS_ACCESS_KEY",
+  http_timeout_seconds: "CODECKS_HTTP_TIMEOUT_SECONDS",
+  http_max_retries: "CODECKS_HTTP_MAX_RETRIES",
+  http_retry_base_seconds: "CODECKS_HTTP_RETRY_BASE_SECONDS",
+  http_max_response_bytes: "CODECKS_HTTP_MAX_RESPONSE_BYTES",
+};
+
+function defaultConfigFile(): string {
+  const base =
+    process.env.XDG_CONFIG_HOME ||
+    (process.platform === "win32" ? process.env.APPDATA : undefined) ||
+    join(homedir(), ".config");
+  return join(base, "codecks-mcp", "config.json");
+}
+
+export const CONFIG_FILE =
+  dotenv.CODECKS_CONFIG_FILE ?? process.env.CODECKS_CONFIG_FILE ?? defaultConfigFile();
+
+/**
+ * Profiles from CONFIG_FILE, each mapped to env variable names:
+ * `{"default": "studio", "profiles": {"studio": {"token": "...", "account": "..."}}}`
+ * An unreadable file is ignored with a warning, so env-only setups still start.
+ */
+function loadProfiles(path: string): {
+  defaultProfile?: string;
+  profiles: Record<string, Record<string, string>>;
+  error?: string;
+} {
+  if (!existsSync(path)) return { profiles: {} };
+  let raw: { default?: unknown; profiles?: Record<string, Record<string, unknown>> };
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+    if (raw === null || typeof raw !== "object") throw new Error("expected a JSON object");
+  } catch (err) {
+    const error = `Invalid config file ${path}: ${(err as Error).message}`;
+    console.error(`codecks-mcp: ${error}. Ignoring it.`);
+    return { profiles: {}, error };
+  }
+
+  const profiles: Record<string, Record<string, string>> = {};
+  for (const [name, settings] of Object.entries(raw.profiles ?? {})) {
+    profiles[name] = {};
+    for (const [key, value] of Object.entries(settings ?? {})) {
+      const envKey = PROFILE_KEYS[key];
+      if (!envKey) {
+        console.error(`codecks-mcp: ignoring unknown key '${key}' in profile '${name}'`);
+        continue;
+      }
+      profiles[name][envKey] = String(value);
+    }
+  }
+  return {
+    defaultProfile: typeof raw.default === "string" ? raw.default : undefined,
+    profiles,
+  };
+}
+
+const profileFile = loadProfiles(CONFIG_FILE);
+
+function cliProfileArg(): string | undefined {
+  const idx = process.argv.indexOf("--profile");
+  return idx === -1 ? undefined : process.argv[idx + 1];
+}
+
+const namedProfile = cliProfileArg() ?? dotenv.CODECKS_PROFILE ?? process.env.CODECKS_PROFILE;
+const requestedProfile = namedProfile ?? profileFile.defaultProfile ?? null;
+
+/**
+ * Why the requested profile can't be used, or null. Reported by main() before startup;
+ * throwing here would crash on import without a readable message.
+ */
+export const configError: string | null =
+  requestedProfile && !profileFile.profiles[requestedProfile]
+    ? `Unknown profile '${requestedProfile}' in ${CONFIG_FILE}. ` +
+      (profileFile.error
+        ? `The config file was ignored: ${profileFile.error}`
+        : `Available: ${Object.keys(profileFile.profiles).join(", ") || "(none)"}`)
+    : null;
+
+/** Name of the profile loaded at startup (--profile, CODECKS_PROFILE, or the file default). */
+export const activeProfile: string | null = configError ? null : requestedProfile;
+
+const profileEnv = activeProfile ? profileFile.profiles[activeProfile] : {};
+
+/**
+ * A profile named with --profile or CODECKS_PROFILE wins over ambient env and .env values;
+ * the file's default profile only fills in what the environment leaves unset.
+ */
+const profileWins = activeProfile !== null && namedProfile !== undefined;
+
+for (const [key, value] of Object.entries(profileEnv)) {
+  const ambient = dotenv[key] ?? process.env[key];
+  if (ambient === undefined || ambient === value) continue;
+  console.error(
+    profileWins
+      ? `codecks-mcp: profile '${activeProfile}' overrides ${key} from the environment`
+      : `codecks-mcp: ${key} from the environment overrides default profile '${activeProfile}'`,
+  );
+}
+
+export function listProfiles(): string[] {
+  return Object.keys(profileFile.profiles);
+}
+
 function getEnv(key: string, fallback = ""): string {
-  return dotenv[key] ?? process.env[key] ?? fallback;
+  if (profileWins && profileEnv[key] !== undefined) return profileEnv[key];
+  return dotenv[key] ?? process.env[key] ?? profileEnv[key] ?? fallback;
+}
+
+/** Where a setting's value came from: ".env", "env", "profile:<name>", or "unset". */
+export function settingSource(key: string): string {
+  if (profileWins && profileEnv[key] !== undefined) return `profile:${activeProfile}`;
+  if (dotenv[key] !== undefined) return ".env";
+  if (process.env[key] !== undefined) return "env";
+  if (profileEnv[key] !== undefined) return `profile:${activeProfile}`;
+  return "unset";
 }
 
 function getEnvInt(key: string, fallback: number): number {
@@ -46,6 +176,13 @@ function getEnvFloat(key: string, fallback: number): number {
   return isNaN(parsed) ? fallback : parsed;
 }
 
+function getEnvList(key: string): string[] {
+  return getEnv(key)
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
 function getEnvBool(key: string, fallback = false): boolean {
   const raw = getEnv(key);
   if (!raw) return fallback;
@@ -86,6 +223,14 @@ export const PRI_LABELS: Record<string, string> = {
 // Configuration (from env)
 // ---------------------------------------------------------------------------
 
+/** The Codecks identity requests are made as. HTTP sessions may bring their own. */
+export interface CodecksCredentials {
+  sessionToken: string;
+  account: string;
+  userId: string;
+  reportToken: string;
+}
+
 export const config = {
   sessionToken: getEnv("CODECKS_TOKEN"),
   accessKey: getEnv("CODECKS_ACCESS_KEY"),
@@ -97,8 +242,52 @@ export const config = {
   httpRetryBase: getEnvFloat("CODECKS_HTTP_RETRY_BASE_SECONDS", 1.0),
   httpMaxResponseBytes: getEnvInt("CODECKS_HTTP_MAX_RESPONSE_BYTES", 5_000_000),
   httpLogEnabled: getEnvBool("CODECKS_HTTP_LOG"),
+  httpLogFile: getEnv("CODECKS_HTTP_LOG_FILE"), // empty = stderr
+  rateLimitRequests: getEnvInt("CODECKS_RATE_LIMIT_REQUESTS", 40), // 0 disables
+  rateLimitWindow: getEnvFloat("CODECKS_RATE_LIMIT_WINDOW_SECONDS", 5) * 1000, // ms
+  debug: getEnvBool("CODECKS_DEBUG"),
+  metadataTtl: getEnvInt("CODECKS_METADATA_TTL_SECONDS", 300) * 1000, // ms, 0 disables
+  httpServerToken: getEnv("CODECKS_MCP_HTTP_TOKEN"),
+  httpServerHost: getEnv("CODECKS_MCP_HTTP_HOST", "127.0.0.1"),
+  httpAllowedOrigins: getEnvList("CODECKS_MCP_ALLOWED_ORIGINS"),
+  httpAllowedHosts: getEnvList("CODECKS_MCP_ALLOWED_HOSTS"),
+  httpMaxSessions: getEnvInt("CODECKS_MCP_MAX_SESSIONS", 20), // 0 = unlimited
+  httpSessionIdleTimeout: getEnvInt("CODECKS_MCP_SESSION_IDLE_SECONDS", 1800) * 1000, // ms
+  httpRequireSessionCredentials: getEnvBool("CODECKS_MCP_REQUIRE_SESSION_CREDENTIALS"),
+  shutdownTimeout: getEnvInt("CODECKS_SHUTDOWN_TIMEOUT_SECONDS", 30) * 1000, // ms
+  readOnly: getEnvBool("CODECKS_MCP_READ_ONLY"),
+  toolsAllow: getEnvList("CODECKS_MCP_TOOLS_ALLOW"), // tool names or categories
+  toolsDeny: getEnvList("CODECKS_MCP_TOOLS_DENY"),
+  confirmDestructive: getEnvBool("CODECKS_MCP_CONFIRM_DESTRUCTIVE", true),
+  resourcePollInterval: getEnvInt("CODECKS_MCP_RESOURCE_POLL_SECONDS", 30) * 1000, // ms, 0 disables
   mcpResponseMode: (() => {
     const mode = getEnv("CODECKS_MCP_RESPONSE_MODE", "legacy").toLowerCase();
     return mode === "envelope" ? "envelope" : "legacy";
   })() as "legacy" | "envelope",
 } as const;
+
+// ---------------------------------------------------------------------------
+// Credentials by profile
+// ---------------------------------------------------------------------------
+
+/** Credentials stored in a config file profile, for switching accounts at runtime. */
+export function profileCredentials(name: string): CodecksCredentials | null {
+  const profile = profileFile.profiles[name];
+  if (!profile) return null;
+  return {
+    sessionToken: profile.CODECKS_TOKEN ?? "",
+    account: profile.CODECKS_ACCOUNT ?? "",
+    userId: profile.CODECKS_USER_ID ?? "",
+    reportToken: profile.CODECKS_REPORT_TOKEN ?? "",
+  };
+}
+
+/** Source of each credential in `config`, for diagnostics. */
+export function credentialSources(): Record<string, string> {
+  return Object.fromEntries(
+    ["CODECKS_TOKEN", "CODECKS_ACCOUNT", "CODECKS_USER_ID", "CODECKS_REPORT_TOKEN"].map((key) => [
+      key,
+      settingSource(key),
+    ]),
+  );
+}
@@ -84,3 +84,27 @@ export function finalizeToolResult(result: unknown): unknown {
 
   return result;
 }
+
+/**
+ * Build a tool result: the finalized payload as JSON text, mirrored as
+ * `structuredContent` for clients that read output schemas. Non-object payloads
+ * (e.g. legacy-mode lists) are wrapped as `{ result }` since structured content must be an object.
+ * Contract errors set `isError` and carry no structured content: output schemas describe
+ * successful results only.
+ */
+export function toolResponse(result: unknown): {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: true;
+} {
+  const payload = finalizeToolResult(result);
+  const content = [{ type: "text" as const, text: JSON.stringify(payload) }];
+  const isObject = payload !== null && typeof payload === "object" && !Array.isArray(payload);
+  if (isObject && (payload as Record<string, unknown>).ok === false) {
+    return { content, isError: true };
+  }
+  return {
+    content,
+    structuredContent: isObject ? (payload as Record<string, unknown>) : { result: payload },
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Configuration diagnostics for GET /health and the `doctor` tool.
+ * Checks each credential against Codecks and suggests a fix for every failure.
+ */
+
+import type { CodecksClient } from "./client.js";
+import { config, credentialSources, VERSION } from "./config.js";
+import { SetupError } from "./errors.js";
+
+export type CheckStatus = "ok" | "warn" | "fail" | "skip";
+
+export interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  fix?: string;
+}
+
+export interface DiagnosticReport {
+  /** False when any check failed. */
+  healthy: boolean;
+  version: string;
+  checks: DiagnosticCheck[];
+  /** Where each credential came from: ".env", "env", "profile:<name>", "session headers", ... */
+  sources: Record<string, string>;
+  settings: Record<string, unknown>;
+}
+
+const TOKEN_FIX =
+  "Log in to Codecks in a browser, copy the 'at' cookie from DevTools and set it as CODECKS_TOKEN.";
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Account name from a getAccount() result (entity map keyed by account ID). */
+function accountName(result: Record<string, unknown>): string | null {
+  const accounts = Object.values((result.account ?? {}) as Record<string, unknown>);
+  const first = accounts.find((a) => a !== null && typeof a === "object") as
+    | Record<string, unknown>
+    | undefined;
+  return typeof first?.name === "string" ? first.name : null;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function checkAccountSlug(account: string): DiagnosticCheck {
+  if (!account) {
+    return {
+      name: "account",
+      status: "fail",
+      detail: "CODECKS_ACCOUNT is not set.",
+      fix: "Set CODECKS_ACCOUNT to your team subdomain (the 'acme' in acme.codecks.io).",
+    };
+  }
+  if (!/^[a-z0-9-]+$/i.test(account)) {
+    return {
+      name: "account",
+      status: "fail",
+      detail: `CODECKS_ACCOUNT '${account}' is not a bare subdomain.`,
+      fix: "Use only the subdomain, without scheme or '.codecks.io' (e.g. 'acme').",
+    };
+  }
+  return { name: "account", status: "ok", detail: `Account slug '${account}'.` };
+}
+
+async function checkSessionToken(client: CodecksClient): Promise<DiagnosticCheck> {
+  const { sessionToken, account } = client.credentials;
+  if (!sessionToken) {
+    return {
+      name: "session_token",
+      status: "fail",
+      detail: "CODECKS_TOKEN is not set; only report-token card creation is available.",
+      fix: TOKEN_FIX,
+    };
+  }
+  try {
+    const name = accountName(await client.getAccount());
+    return {
+      name: "session_token",
+      status: "ok",
+      detail: name ? `Authenticated to account '${name}'.` : "Authenticated.",
+    };
+  } catch (err) {
+    if (err instanceof SetupError) {
+      return {
+        name: "session_token",
+        status: "fail",
+        detail: `Codecks rejected the token for account '${account}'.`,
+        fix: `${TOKEN_FIX} Also confirm CODECKS_ACCOUNT '${account}' is the account it belongs to.`,
+      };
+    }
+    return {
+      name: "session_token",
+      status: "fail",
+      detail: `Could not reach Codecks: ${errorMessage(err)}`,
+      fix: "Check network access to api.codecks.io, or raise CODECKS_HTTP_TIMEOUT_SECONDS.",
+    };
+  }
+}
+
+async function checkUserId(client: CodecksClient, tokenOk: boolean): Promise<DiagnosticCheck> {
+  const configured = client.credentials.userId;
+  if (!tokenOk) {
+    return configured
+      ? { name: "user_id", status: "skip", detail: "Needs a working session token." }
+      : {
+          name: "user_id",
+          status: "warn",
+          detail: "CODECKS_USER_ID is not set and cannot be discovered without a session token.",
+          fix: "Fix CODECKS_TOKEN, or set CODECKS_USER_ID to your Codecks user ID.",
+        };
+  }
+  try {
+    const userId = await client.currentUserId();
+    const users = (await client.listUsers()).users as Record<string, unknown>[];
+    const user = users.find((u) => u.id === userId);
+    if (user) {
+      const name = String(user.name ?? userId);
+      return {
+        name: "user_id",
+        status: "ok",
+        detail: configured ? `User '${name}'.` : `Discovered user '${name}' (${userId}).`,
+      };
+    }
+    const known = users.slice(0, 10).map((u) => `${String(u.name ?? "?")} (${String(u.id)})`);
+    return {
+      name: "user_id",
+      status: "fail",
+      detail: `CODECKS_USER_ID '${userId}' is not a member of this account.`,
+      fix: `Set CODECKS_USER_ID to one of: ${known.join(", ") || "(no users found)"}.`,
+    };
+  } catch (err) {
+    return {
+      name: "user_id",
+      status: "fail",
+      detail: `Could not list account users: ${errorMessage(err)}`,
+    };
+  }
+}
+
+function checkReportToken(reportToken: string, sessionPathOk: boolean): DiagnosticCheck {
+  if (!reportToken) {
+    return sessionPathOk
+      ? { name: "report_token", status: "skip", detail: "Not set (not needed with a session)." }
+      : {
+          name: "report_token",
+          status: "warn",
+          detail: "CODECKS_REPORT_TOKEN is not set and the session path is unavailable.",
+          fix: "Fix CODECKS_TOKEN/CODECKS_USER_ID, or generate a report token via the CLI.",
+        };
+  }
+  if (/[\s"']/.test(reportToken)) {
+    return {
+      name: "report_token",
+      status: "fail",
+      detail: "CODECKS_REPORT_TOKEN contains spaces or quotes.",
+      fix: "Copy the report token again without surrounding quotes or whitespace.",
+    };
+  }
+  // Codecks has no read-only endpoint for report tokens; only a real report proves it works
+  return sessionPathOk
+    ? {
+        name: "report_token",
+        status: "skip",
+        detail: "Set, not verified (cards are created through the session).",
+      }
+    : {
+        name: "report_token",
+        status: "warn",
+        detail: "Set, not verified: Codecks only checks it when a card is created.",
+        fix: "Create a test card; if it fails, generate a new report token via the CLI.",
+      };
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+export async function runDiagnostics(client: CodecksClient): Promise<DiagnosticReport> {
+  const account = checkAccountSlug(client.credentials.account);
+  const token = await checkSessionToken(client);
+  const user = await checkUserId(client, token.status === "ok");
+  const report = checkReportToken(
+    client.credentials.reportToken,
+    token.status === "ok" && user.status === "ok",
+  );
+  const checks = [account, token, user, report];
+
+  const sources =
+    client.credentialSource === "config"
+      ? credentialSources()
+      : Object.fromEntries(
+          Object.keys(credentialSources()).map((k) => [k, client.credentialSource]),
+        );
+
+  return {
+    healthy: checks.every((c) => c.status !== "fail"),
+    version: VERSION,
+    checks,
+    sources,
+    settings: {
+      response_mode: config.mcpResponseMode,
+      http_timeout_seconds: config.httpTimeout / 1000,
+      http_max_retries: config.httpMaxRetries,
+      rate_limit: `${config.rateLimitRequests} requests / ${config.rateLimitWindow / 1000}s`,
+      metadata_ttl_seconds: config.metadataTtl / 1000,
+    },
+  };
+}
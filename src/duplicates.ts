@@ -0,0 +1,93 @@
+/**
+ * Duplicate-title detection for card creation.
+ * Compares a new title against existing cards using normalized and fuzzy matching.
+ */
+
+// ---------------------------------------------------------------------------
+// Normalization
+// ---------------------------------------------------------------------------
+
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/^#+\s*/, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Similarity
+// ---------------------------------------------------------------------------
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/** The numeric tokens of a normalized title, in order. */
+function numbers(normalized: string): string {
+  return (normalized.match(/\p{N}+/gu) ?? []).join(" ");
+}
+
+/** Similarity in [0, 1] between two titles (1 = same after normalization). */
+export function titleSimilarity(a: string, b: string): number {
+  const na = normalizeTitle(a);
+  const nb = normalizeTitle(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  // Numbered work items ("Level 10" / "Level 11") are separate cards, not typos
+  if (numbers(na) !== numbers(nb)) return 0;
+
+  // Same words in a different order count as a match
+  const wordsA = na.split(" ").sort().join(" ");
+  const wordsB = nb.split(" ").sort().join(" ");
+  if (wordsA === wordsB) return 1;
+
+  return 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+export const DUPLICATE_THRESHOLD = 0.85;
+
+export interface DuplicateCandidate {
+  card_id: string;
+  title: string;
+  similarity: number;
+}
+
+export function findDuplicates(
+  title: string,
+  cards: Record<string, unknown>[],
+  threshold = DUPLICATE_THRESHOLD,
+): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+  for (const card of cards) {
+    if (typeof card.title !== "string") continue;
+    const similarity = titleSimilarity(title, card.title);
+    if (similarity >= threshold) {
+      candidates.push({
+        card_id: String(card.id),
+        title: card.title,
+        similarity: Math.round(similarity * 100) / 100,
+      });
+    }
+  }
+  return candidates.sort((a, b) => b.similarity - a.similarity);
+}
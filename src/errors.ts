@@ -2,6 +2,8 @@
  * Custom error classes mirroring the Python codecks-cli exception hierarchy.
  */
 
+import type { DuplicateCandidate } from "./duplicates.js";
+
 export class CliError extends Error {
   readonly exitCode: number = 1;
 
@@ -20,6 +22,43 @@ export class SetupError extends CliError {
   }
 }
 
+/**
+ * A failure that may clear up on retry (timeout, connection drop, 429, 5xx gateway).
+ * `mayHaveLanded` is false only when the server certainly did not apply the request.
+ */
+export class TransientError extends CliError {
+  constructor(
+    message: string,
+    public readonly mayHaveLanded = true,
+    /** Minimum wait before retrying, from the server's `Retry-After` header. */
+    public readonly retryAfterMs = 0,
+  ) {
+    super(message);
+    this.name = "TransientError";
+  }
+}
+
+export class DuplicateCardError extends CliError {
+  constructor(
+    message: string,
+    public readonly candidates: DuplicateCandidate[],
+  ) {
+    super(message);
+    this.name = "DuplicateCardError";
+  }
+}
+
+export class ScaffoldError extends CliError {
+  constructor(
+    message: string,
+    public readonly rolledBack: string[],
+    public readonly rollbackFailed: string[],
+  ) {
+    super(message);
+    this.name = "ScaffoldError";
+  }
+}
+
 export class HTTPError extends Error {
   constructor(
     public readonly code: number,
@@ -0,0 +1,150 @@
+/**
+ * Access control for the HTTP transport: bearer/shared-secret auth,
+ * Origin/Host validation against DNS rebinding, and per-session Codecks credentials.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { CodecksCredentials } from "./config.js";
+
+export interface HttpAuthSettings {
+  /** Required bearer token / shared secret. Empty = no auth. */
+  token: string;
+  /** Allowed Origin values (scheme://host[:port]). Empty = loopback origins only. */
+  allowedOrigins: string[];
+  /** Allowed Host header names (without port). Empty = loopback names when bound to loopback. */
+  allowedHosts: string[];
+  /** Address the server is bound to. */
+  bindHost: string;
+}
+
+export interface AuthRejection {
+  status: number;
+  reason: string;
+}
+
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "::1", "[::1]"]);
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.has(host.toLowerCase());
+}
+
+/** Strip the port from a Host header value ("[::1]:3000" -> "[::1]"). */
+function hostName(hostHeader: string): string {
+  const value = hostHeader.trim().toLowerCase();
+  if (value.startsWith("[")) return value.slice(0, value.indexOf("]") + 1);
+  return value.split(":")[0];
+}
+
+export function secretsMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function presentedToken(headers: Record<string, string | string[] | undefined>): string | null {
+  const auth = headers["authorization"];
+  if (typeof auth === "string" && /^bearer\s+/i.test(auth)) {
+    return auth.replace(/^bearer\s+/i, "").trim();
+  }
+  const secret = headers["x-mcp-secret"];
+  return typeof secret === "string" ? secret : null;
+}
+
+function originAllowed(origin: string, settings: HttpAuthSettings): boolean {
+  if (settings.allowedOrigins.length > 0) return settings.allowedOrigins.includes(origin);
+  try {
+    return isLoopbackHost(new URL(origin).hostname);
+  } catch {
+    return false; // includes the opaque "null" origin
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+export function checkHttpRequest(
+  headers: Record<string, string | string[] | undefined>,
+  settings: HttpAuthSettings,
+): AuthRejection | null {
+  // Host: blocks DNS rebinding, where a hostile page resolves its own name to 127.0.0.1
+  const host = typeof headers["host"] === "string" ? hostName(headers["host"]) : "";
+  if (settings.allowedHosts.length > 0) {
+    if (!settings.allowedHosts.map((h) => h.toLowerCase()).includes(host)) {
+      return { status: 403, reason: `Host '${host}' not allowed` };
+    }
+  } else if (isLoopbackHost(settings.bindHost) && !isLoopbackHost(host)) {
+    return { status: 403, reason: `Host '${host}' not allowed` };
+  }
+
+  // Origin: only browsers send it; non-browser MCP clients omit it
+  const origin = headers["origin"];
+  if (typeof origin === "string" && !originAllowed(origin, settings)) {
+    return { status: 403, reason: `Origin '${origin}' not allowed` };
+  }
+
+  if (settings.token) {
+    const given = presentedToken(headers);
+    if (!given) return { status: 401, reason: "Missing bearer token" };
+    if (!secretsMatch(given, settings.token)) return { status: 401, reason: "Invalid token" };
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Per-session Codecks credentials
+// ---------------------------------------------------------------------------
+
+function headerValue(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Codecks credentials supplied with a request (X-Codecks-Token, X-Codecks-Account,
+ * X-Codecks-User-Id, X-Codecks-Report-Token), or null when the client sent none.
+ * A session that brings its own token never inherits the server's user ID or
+ * report token; only the account falls back.
+ */
+export function sessionCredentials(
+  headers: Record<string, string | string[] | undefined>,
+  fallback: CodecksCredentials,
+): CodecksCredentials | null {
+  const sessionToken = headerValue(headers, "x-codecks-token");
+  if (!sessionToken) return null;
+  return {
+    sessionToken,
+    account: headerValue(headers, "x-codecks-account") ?? fallback.account,
+    userId: headerValue(headers, "x-codecks-user-id") ?? "",
+    reportToken: headerValue(headers, "x-codecks-report-token") ?? "",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Express middleware
+// ---------------------------------------------------------------------------
+
+export function httpAuthMiddleware(settings: HttpAuthSettings) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const rejection = checkHttpRequest(req.headers, settings);
+    if (!rejection) {
+      next();
+      return;
+    }
+    console.error(
+      `[codecks-mcp] Rejected ${req.method} ${req.path} from ${req.ip ?? "unknown"}: ` +
+        rejection.reason,
+    );
+    if (rejection.status === 401) res.setHeader("WWW-Authenticate", "Bearer");
+    res.status(rejection.status).json({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: rejection.reason },
+      id: null,
+    });
+  };
+}
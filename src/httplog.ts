@@ -0,0 +1,85 @@
+/**
+ * Structured HTTP logging (CODECKS_HTTP_LOG) with secret redaction.
+ * Writes one JSON object per line to stderr, or to CODECKS_HTTP_LOG_FILE when set.
+ */
+
+import { appendFileSync } from "node:fs";
+import { config } from "./config.js";
+
+const REDACTED = "[REDACTED]";
+
+const SECRET_HEADERS = new Set(["x-auth-token", "authorization", "cookie", "set-cookie"]);
+const SECRET_QUERY_PARAMS = new Set(["token", "access_key", "accesskey"]);
+
+export interface HttpLogEntry {
+  method: string;
+  url: string;
+  requestId?: string;
+  headers?: Record<string, string>;
+  status?: number;
+  latencyMs: number;
+  retries: number;
+  responseBytes?: number;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+/** Split a URL into path + query with secret query values replaced. */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url.replace(/([?&](?:token|access_key|accessKey)=)[^&]*/gi, `$1${REDACTED}`);
+  }
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (SECRET_QUERY_PARAMS.has(key.toLowerCase())) parsed.searchParams.set(key, REDACTED);
+  }
+  // URLSearchParams percent-encodes the brackets; keep the marker readable
+  return (parsed.pathname + parsed.search).replaceAll(encodeURIComponent(REDACTED), REDACTED);
+}
+
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    out[key] = SECRET_HEADERS.has(key.toLowerCase()) ? REDACTED : value;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+export function formatHttpLogEntry(entry: HttpLogEntry): string {
+  const line: Record<string, unknown> = {
+    ts: new Date().toISOString(),
+    method: entry.method,
+    path: redactUrl(entry.url),
+    request_id: entry.requestId ?? null,
+    status: entry.status ?? null,
+    latency_ms: entry.latencyMs,
+    retries: entry.retries,
+    response_bytes: entry.responseBytes ?? null,
+  };
+  if (entry.headers) line.headers = redactHeaders(entry.headers);
+  if (entry.error) line.error = entry.error;
+  return JSON.stringify(line);
+}
+
+export function logHttpExchange(entry: HttpLogEntry): void {
+  if (!config.httpLogEnabled) return;
+  const line = formatHttpLogEntry(entry);
+  if (config.httpLogFile) {
+    try {
+      appendFileSync(config.httpLogFile, line + "\n", "utf-8");
+      return;
+    } catch {
+      // Fall through to stderr if the log file is unwritable
+    }
+  }
+  console.error(line);
+}
@@ -3,14 +3,23 @@
  *
  * Transports:
  *   stdio (default): codecks-mcp
- *   http:            codecks-mcp --transport http --port 3000
+ *   http:            codecks-mcp --transport http --port 3000 [--host 127.0.0.1]
+ *
+ * --read-only registers only tools that don't change Codecks data or local files;
+ * resources and prompts are left out along with the tools they stand in for.
+ * --profile <name> selects a profile from the config file (read in config.ts).
  */
 
+import type { Request, Response } from "express";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CodecksClient } from "./client.js";
 import { registerAllTools } from "./tools/index.js";
-import { VERSION } from "./config.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { VERSION, config, configError } from "./config.js";
+import { InFlightTracker, trackToolCalls } from "./lifecycle.js";
+import type { ToolPolicy } from "./tools/policy.js";
 
 // ---------------------------------------------------------------------------
 // Parse CLI arguments
@@ -26,55 +35,223 @@ function getArg(name: string): string | undefined {
 
 const transport = getArg("transport") ?? "stdio";
 const port = parseInt(getArg("port") ?? "3000", 10);
+const host = getArg("host") ?? config.httpServerHost;
+
+const toolPolicy: ToolPolicy = {
+  readOnly: args.includes("--read-only") || config.readOnly,
+  allow: config.toolsAllow,
+  deny: config.toolsDeny,
+};
 
 // ---------------------------------------------------------------------------
 // Create server
 // ---------------------------------------------------------------------------
 
-const server = new McpServer({
-  name: "codecks",
-  version: VERSION,
-});
-
 const client = new CodecksClient();
+const inFlight = new InFlightTracker();
+
+/**
+ * One McpServer per connection: stdio has one, HTTP has one per session.
+ * Sessions acting with their own Codecks credentials get their own client.
+ */
+function createServer(sessionClient = client): McpServer {
+  const server = new McpServer({
+    name: "codecks",
+    version: VERSION,
+  });
+  trackToolCalls(server, inFlight);
+  // Sessions with their own credentials must not reach the server's profiles
+  const ownCredentials = sessionClient.credentialSource !== "config";
+  const tools = registerAllTools(server, sessionClient, {
+    ...toolPolicy,
+    deny: ownCredentials ? [...toolPolicy.deny, "switch_account"] : toolPolicy.deny,
+  });
+  // Resources and prompts follow the tool policy through the tools they stand in for
+  registerResources(server, sessionClient, tools);
+  registerPrompts(server, sessionClient, tools);
+  return server;
+}
+
+// ---------------------------------------------------------------------------
+// Graceful shutdown
+// ---------------------------------------------------------------------------
+
+/** Set by main() once a transport is up. */
+let stopListening: () => void = () => {};
+let closeTransport: () => Promise<void> = async () => {};
+let shuttingDown = false;
+
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) {
+    console.error(`codecks-mcp: ${signal} received again, exiting immediately`);
+    process.exit(1);
+  }
+  shuttingDown = true;
+
+  stopListening();
+  const running = inFlight.active.length;
+  console.error(
+    `codecks-mcp: ${signal} received, waiting up to ${config.shutdownTimeout / 1000}s ` +
+      `for ${running} in-flight tool call(s)`,
+  );
+  const interrupted = await inFlight.drain(config.shutdownTimeout);
+  for (const call of interrupted) {
+    console.error(
+      `codecks-mcp: interrupted ${call.name} (running for ${Date.now() - call.startedAt}ms)`,
+    );
+  }
+
+  await closeTransport().catch((err) => {
+    console.error("codecks-mcp: error while closing transport:", err);
+  });
+  process.exit(interrupted.length > 0 ? 1 : 0);
+}
 
-registerAllTools(server, client);
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => void shutdown(signal));
+}
 
 // ---------------------------------------------------------------------------
 // Start transport
 // ---------------------------------------------------------------------------
 
 async function main(): Promise<void> {
+  if (configError) {
+    console.error(`codecks-mcp: ${configError}`);
+    process.exit(1);
+  }
+
   if (transport === "http") {
     // Dynamic import to avoid loading express for stdio users
     const { default: express } = await import("express");
     const { randomUUID } = await import("node:crypto");
     const { StreamableHTTPServerTransport } =
       await import("@modelcontextprotocol/sdk/server/streamableHttp.js");
+    const { httpAuthMiddleware, isLoopbackHost, secretsMatch, sessionCredentials } =
+      await import("./httpauth.js");
+    const { SessionStore } = await import("./sessions.js");
+    const { renderMetrics } = await import("./metrics.js");
+    const { runDiagnostics } = await import("./doctor.js");
 
     const app = express();
+    const requireAuth = httpAuthMiddleware({
+      token: config.httpServerToken,
+      allowedOrigins: config.httpAllowedOrigins,
+      allowedHosts: config.httpAllowedHosts,
+      bindHost: host,
+    });
 
-    // MCP endpoint — do NOT use express.json() here, the transport reads raw body
-    const httpTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: () => randomUUID(),
+    if (!config.httpServerToken && !isLoopbackHost(host)) {
+      console.error(
+        `WARNING: listening on ${host} without CODECKS_MCP_HTTP_TOKEN — ` +
+          "anyone who can reach this port can act with your Codecks token.",
+      );
+    }
+
+    type HttpSession = {
+      transport: InstanceType<typeof StreamableHTTPServerTransport>;
+      /** Codecks token the session was opened with, if it brought its own. */
+      codecksToken?: string;
+      close(): Promise<void>;
+    };
+    const sessions = new SessionStore<HttpSession>({
+      maxSessions: config.httpMaxSessions,
+      idleTimeoutMs: config.httpSessionIdleTimeout,
+    });
+    sessions.startSweeper(60_000, (ids) => {
+      console.error(`codecks-mcp: expired ${ids.length} idle session(s)`);
     });
-    await server.connect(httpTransport);
 
-    app.post("/mcp", async (req, res) => {
-      await httpTransport.handleRequest(req, res);
+    const sessionError = (res: Response, status: number, message: string): void => {
+      res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+    };
+
+    // Requests within an existing session (POST, GET SSE stream, DELETE teardown)
+    const handleSessionRequest = async (req: Request, res: Response): Promise<void> => {
+      const sessionId = req.header("mcp-session-id");
+      if (!sessionId) return sessionError(res, 400, "Missing mcp-session-id header");
+      const session = sessions.get(sessionId);
+      if (!session) return sessionError(res, 404, "Session not found");
+      // A leaked session ID must not be enough to act as the teammate who opened it
+      const token = req.header("x-codecks-token") ?? "";
+      if (session.codecksToken && !secretsMatch(token, session.codecksToken)) {
+        return sessionError(res, 403, "Codecks credentials do not match this session");
+      }
+      await session.transport.handleRequest(req, res);
+    };
+
+    // MCP endpoint — do NOT use express.json() here, the transport reads raw body
+    app.post("/mcp", requireAuth, async (req, res) => {
+      if (req.header("mcp-session-id")) return handleSessionRequest(req, res);
+
+      // No session header: this must be an initialize request opening a new session
+      if (!sessions.hasCapacity()) {
+        return sessionError(res, 503, "Too many active sessions; try again later");
+      }
+      const credentials = sessionCredentials(req.headers, config);
+      if (!credentials && config.httpRequireSessionCredentials) {
+        return sessionError(res, 401, "Missing X-Codecks-Token header");
+      }
+      // Each session gets its own client so switch_account stays within the session
+      const server = createServer(
+        credentials ? new CodecksClient(credentials, "session headers") : new CodecksClient(),
+      );
+      const session: HttpSession = {
+        codecksToken: credentials?.sessionToken,
+        transport: new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => sessions.add(id, session),
+          onsessionclosed: (id) => {
+            sessions.delete(id);
+          },
+        }),
+        close: () => server.close(),
+      };
+      session.transport.onclose = () => {
+        if (session.transport.sessionId) sessions.delete(session.transport.sessionId);
+      };
+      await server.connect(session.transport);
+      await session.transport.handleRequest(req, res);
+
+      // Not an initialize request: the transport rejected it, so drop the unused server
+      if (!session.transport.sessionId) await server.close();
     });
 
+    app.get("/mcp", requireAuth, handleSessionRequest);
+    app.delete("/mcp", requireAuth, handleSessionRequest);
+
     app.get("/ping", (_req, res) => {
       res.json({ ok: true, version: VERSION });
     });
 
-    app.listen(port, () => {
-      console.error(`codecks-mcp HTTP server listening on port ${port}`);
+    // Deep check: validates the configured credentials against Codecks
+    app.get("/health", requireAuth, async (_req, res) => {
+      const report = await runDiagnostics(client);
+      res.status(report.healthy ? 200 : 503).json(report);
     });
+
+    app.get("/metrics", requireAuth, (_req, res) => {
+      res.type("text/plain; version=0.0.4").send(renderMetrics());
+    });
+
+    const listener = app.listen(port, host, () => {
+      console.error(`codecks-mcp HTTP server listening on ${host}:${port}`);
+    });
+    const listenerClosed = new Promise<void>((resolve) => listener.on("close", resolve));
+
+    stopListening = () => listener.close();
+    closeTransport = async () => {
+      await sessions.closeAll();
+      // Open SSE streams would otherwise keep the listener alive
+      listener.closeAllConnections();
+      await listenerClosed;
+    };
   } else {
     // stdio transport (default)
     const stdioTransport = new StdioServerTransport();
+    const server = createServer();
     await server.connect(stdioTransport);
+    closeTransport = () => server.close();
     console.error(`codecks-mcp v${VERSION} running on stdio`);
   }
 }
@@ -0,0 +1,81 @@
+/**
+ * Lane registry — deck categories used when scaffolding features.
+ * Shared by the registry tools and CodecksClient.scaffoldFeature.
+ */
+
+// ---------------------------------------------------------------------------
+// Lane definitions (mirrors codecks_cli/lanes.py)
+// ---------------------------------------------------------------------------
+
+export interface LaneDefinition {
+  name: string;
+  displayName: string;
+  required: boolean;
+  keywords: string[];
+  defaultChecklist: string[];
+  tags: string[];
+  cliHelp: string;
+}
+
+export const LANES: LaneDefinition[] = [
+  {
+    name: "code",
+    displayName: "Code",
+    required: true,
+    keywords: ["programming", "implementation", "backend", "frontend"],
+    defaultChecklist: ["- [] Implementation", "- [] Unit tests", "- [] Code review"],
+    tags: ["code"],
+    cliHelp: "Destination deck for Code sub-cards",
+  },
+  {
+    name: "design",
+    displayName: "Design",
+    required: true,
+    keywords: ["ui", "ux", "wireframe", "mockup", "layout"],
+    defaultChecklist: ["- [] Wireframes", "- [] Visual design", "- [] Design review"],
+    tags: ["design"],
+    cliHelp: "Destination deck for Design sub-cards",
+  },
+  {
+    name: "art",
+    displayName: "Art",
+    required: false,
+    keywords: ["sprite", "texture", "model", "animation", "illustration"],
+    defaultChecklist: ["- [] Concept art", "- [] Asset creation", "- [] Art review"],
+    tags: ["art"],
+    cliHelp: "Destination deck for Art sub-cards (optional)",
+  },
+  {
+    name: "audio",
+    displayName: "Audio",
+    required: false,
+    keywords: ["sound", "music", "sfx", "voice"],
+    defaultChecklist: ["- [] Sound design", "- [] Implementation", "- [] Audio review"],
+    tags: ["audio"],
+    cliHelp: "Destination deck for Audio sub-cards (optional)",
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Scaffold lanes
+// ---------------------------------------------------------------------------
+
+export interface LaneDecks {
+  codeDeck: string;
+  designDeck: string;
+  artDeck?: string;
+  skipArt?: boolean;
+  audioDeck?: string;
+  skipAudio?: boolean;
+}
+
+/** Lanes a scaffold creates sub-cards for: optional lanes need a deck and no skip flag. */
+export function scaffoldLanes(decks: LaneDecks): Array<{ lane: LaneDefinition; deck: string }> {
+  const byLane: Record<string, string | undefined> = {
+    code: decks.codeDeck,
+    design: decks.designDeck,
+    art: decks.skipArt ? undefined : decks.artDeck,
+    audio: decks.skipAudio ? undefined : decks.audioDeck,
+  };
+  return LANES.filter((l) => byLane[l.name]).map((l) => ({ lane: l, deck: byLane[l.name]! }));
+}
@@ -0,0 +1,99 @@
+/**
+ * Process lifecycle: in-flight tool call tracking for graceful shutdown.
+ * On SIGINT/SIGTERM the server stops taking new tool calls and waits for running ones.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { contractError, toolResponse } from "./contract.js";
+import { recordToolCall } from "./metrics.js";
+
+export interface InFlightCall {
+  name: string;
+  startedAt: number;
+}
+
+// ---------------------------------------------------------------------------
+// Tracker
+// ---------------------------------------------------------------------------
+
+export class InFlightTracker {
+  private readonly calls = new Set<InFlightCall>();
+  private readonly idleWaiters: Array<() => void> = [];
+  private accepting = true;
+
+  get isAccepting(): boolean {
+    return this.accepting;
+  }
+
+  get active(): InFlightCall[] {
+    return [...this.calls];
+  }
+
+  /** Start tracking a call. Returns its completion callback, or null once draining. */
+  begin(name: string): (() => void) | null {
+    if (!this.accepting) return null;
+    const call: InFlightCall = { name, startedAt: Date.now() };
+    this.calls.add(call);
+    return () => {
+      this.calls.delete(call);
+      if (this.calls.size === 0) this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    };
+  }
+
+  stopAccepting(): void {
+    this.accepting = false;
+  }
+
+  /**
+   * Stop accepting calls and wait up to `timeoutMs` for running ones to finish.
+   * Returns the calls still running at the deadline (empty when drained cleanly).
+   */
+  async drain(timeoutMs: number): Promise<InFlightCall[]> {
+    this.stopAccepting();
+    if (this.calls.size > 0) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([
+        new Promise<void>((resolve) => this.idleWaiters.push(resolve)),
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, Math.max(0, timeoutMs));
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+    return this.active;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tool registration hook
+// ---------------------------------------------------------------------------
+
+type ToolHandler = (...args: unknown[]) => unknown;
+
+/** Wrap every tool registered on `server` so the tracker and metrics see its calls. */
+export function trackToolCalls(server: McpServer, tracker: InFlightTracker): void {
+  const register = server.registerTool.bind(server) as (
+    name: string,
+    config: unknown,
+    handler: ToolHandler,
+  ) => unknown;
+
+  server.registerTool = ((name: string, config: unknown, handler: ToolHandler) =>
+    register(name, config, async (...args: unknown[]) => {
+      const done = tracker.begin(name);
+      if (!done) {
+        return toolResponse(
+          contractError("[ERROR] Server is shutting down. Retry shortly.", "error"),
+        );
+      }
+      const started = Date.now();
+      let result: unknown;
+      try {
+        result = await handler(...args);
+        return result;
+      } finally {
+        done();
+        recordToolCall(name, Date.now() - started, result);
+      }
+    })) as McpServer["registerTool"];
+}
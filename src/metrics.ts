@@ -0,0 +1,180 @@
+/**
+ * In-process metrics, exported in the Prometheus text format on GET /metrics.
+ * Covers tool calls (count, errors, latency) and Codecks API traffic (status, retries,
+ * rate limiting).
+ */
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  const parts = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+// ---------------------------------------------------------------------------
+// Metric types
+// ---------------------------------------------------------------------------
+
+class Counter {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [key, value] of this.values) lines.push(`${this.name}${key} ${value}`);
+    return lines;
+  }
+}
+
+class Histogram {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[],
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) s.counts[i]++;
+    });
+    s.sum += value;
+    s.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, s] of this.series) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${labelKey({ ...s.labels, le: String(bound) })} ${s.counts[i]}`,
+        );
+      });
+      lines.push(`${this.name}_bucket${labelKey({ ...s.labels, le: "+Inf" })} ${s.count}`);
+      lines.push(`${this.name}_sum${key} ${s.sum}`);
+      lines.push(`${this.name}_count${key} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const toolCalls = new Counter("codecks_mcp_tool_calls_total", "Tool calls by tool.");
+const toolErrors = new Counter(
+  "codecks_mcp_tool_errors_total",
+  "Tool calls that returned an error, by tool and contract error type.",
+);
+const toolDuration = new Histogram(
+  "codecks_mcp_tool_duration_seconds",
+  "Tool call latency in seconds.",
+  LATENCY_BUCKETS,
+);
+const apiRequests = new Counter(
+  "codecks_api_requests_total",
+  "Codecks API requests by path and final HTTP status ('error' when no response).",
+);
+const apiDuration = new Histogram(
+  "codecks_api_request_duration_seconds",
+  "Codecks API request latency in seconds, including retries.",
+  LATENCY_BUCKETS,
+);
+const apiRetries = new Counter("codecks_api_retries_total", "Codecks API retries by path.");
+const rateLimitWaits = new Counter(
+  "codecks_api_rate_limit_waits_total",
+  "Requests that queued for the client-side rate limiter.",
+);
+const rateLimitWaitSeconds = new Counter(
+  "codecks_api_rate_limit_wait_seconds_total",
+  "Total time spent queued for the client-side rate limiter.",
+);
+
+const ALL = [
+  toolCalls,
+  toolErrors,
+  toolDuration,
+  apiRequests,
+  apiDuration,
+  apiRetries,
+  rateLimitWaits,
+  rateLimitWaitSeconds,
+];
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/** Contract error type of a tool result (`setup`, `error`, ...), or null on success. */
+function toolErrorType(result: unknown): string | null {
+  if (result === undefined) return "error"; // the handler threw
+  const content = (result as { content?: Array<{ text?: unknown }> }).content;
+  const text = content?.[0]?.text;
+  if (typeof text !== "string") return null;
+  try {
+    const payload = JSON.parse(text) as Record<string, unknown> | null;
+    if (payload && typeof payload === "object" && payload.ok === false) {
+      return String(payload.type ?? "error");
+    }
+  } catch {
+    // Plain-text results are never errors
+  }
+  return null;
+}
+
+/** Record a finished tool call. `result` is undefined when the handler threw. */
+export function recordToolCall(tool: string, durationMs: number, result: unknown): void {
+  toolCalls.inc({ tool });
+  toolDuration.observe({ tool }, durationMs / 1000);
+  const errorType = toolErrorType(result);
+  if (errorType) toolErrors.inc({ tool, type: errorType });
+}
+
+export function recordApiRequest(
+  path: string,
+  status: number | undefined,
+  durationMs: number,
+  retries: number,
+): void {
+  apiRequests.inc({ path, status: status === undefined ? "error" : String(status) });
+  apiDuration.observe({ path }, durationMs / 1000);
+  if (retries > 0) apiRetries.inc({ path }, retries);
+}
+
+export function recordApiRetry(path: string): void {
+  apiRetries.inc({ path });
+}
+
+export function recordRateLimitWait(waitedMs: number): void {
+  rateLimitWaits.inc();
+  rateLimitWaitSeconds.inc({}, waitedMs / 1000);
+}
+
+export function renderMetrics(): string {
+  return ALL.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
@@ -0,0 +1,200 @@
+/**
+ * MCP prompts — standup, triage, milestone planning and feature breakdown workflows.
+ * Each prompt embeds live Codecks data so the agent starts from the current state.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { CodecksClient } from "./client.js";
+import { suggestNames, type NameKind } from "./completions.js";
+import { sanitizeCard } from "./security.js";
+
+const CARD_FIELDS = ["id", "title", "status", "priority", "effort", "lastUpdatedAt"];
+
+/** Drop everything but the fields a planning prompt needs, and tag user text. */
+function compactCards(cards: unknown): Record<string, unknown>[] {
+  return ((cards ?? []) as Record<string, unknown>[]).map((card) =>
+    sanitizeCard(Object.fromEntries(CARD_FIELDS.filter((f) => f in card).map((f) => [f, card[f]]))),
+  );
+}
+
+/** Load live data for a prompt. Failures are described inline so the prompt still works. */
+async function liveData(tool: string, load: () => Promise<unknown>): Promise<string> {
+  try {
+    return "```json\n" + JSON.stringify(await load(), null, 2) + "\n```";
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return `(Live data unavailable: ${msg} — call the \`${tool}\` tool to retry.)`;
+  }
+}
+
+function userPrompt(text: string) {
+  return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+}
+
+function scope(args: { project?: string; owner?: string }): string {
+  const parts = [
+    args.project ? `project '${args.project}'` : "",
+    args.owner ? `owner '${args.owner}'` : "",
+  ].filter(Boolean);
+  return parts.length ? ` for ${parts.join(", ")}` : "";
+}
+
+// ---------------------------------------------------------------------------
+// Register prompts
+// ---------------------------------------------------------------------------
+
+/**
+ * Register the workflow prompts. When `tools` is given, a prompt is registered only if the
+ * tools it loads data with or asks the agent to finish with are, so the tool policy hides both.
+ */
+export function registerPrompts(
+  server: McpServer,
+  client: CodecksClient,
+  tools?: ReadonlySet<string>,
+): void {
+  const exposed = (tool: string) => !tools || tools.has(tool);
+  const name = (kind: NameKind, description: string) =>
+    completable(z.string().optional().describe(description), (value) =>
+      suggestNames(client, kind, value),
+    );
+
+  if (exposed("standup")) {
+    server.registerPrompt(
+      "daily_standup",
+      {
+        title: "Daily Standup",
+        description: "Summarize recent progress, work in flight and blockers.",
+        argsSchema: {
+          owner: name("user", "Owner name to report on"),
+          project: name("project", "Project name"),
+          days: z.string().optional().describe("Look-back window in days (default 2)"),
+        },
+      },
+      async (args) => {
+        const days = Math.max(1, parseInt(args.days ?? "2", 10) || 2);
+        const data = await liveData("standup", async () => {
+          const result = await client.standup({ days, project: args.project, owner: args.owner });
+          return Object.fromEntries(
+            Object.entries(result).map(([key, cards]) => [key, compactCards(cards)]),
+          );
+        });
+        return userPrompt(
+          `Prepare a daily standup${scope(args)} covering the last ${days} day(s).\n\n` +
+            "Use three short sections: Done, In progress, Blocked. One line per card with its " +
+            "title; for blocked cards, say what is needed to unblock them. End with the single " +
+            "most important thing to do today.\n\n" +
+            `Current Codecks data:\n${data}`,
+        );
+      },
+    );
+  }
+
+  if (exposed("pm_focus")) {
+    server.registerPrompt(
+      "triage_blocked",
+      {
+        title: "Triage Blocked Cards",
+        description: "Walk through blocked, in-review and stale cards and propose next actions.",
+        argsSchema: {
+          owner: name("user", "Owner name"),
+          project: name("project", "Project name"),
+        },
+      },
+      async (args) => {
+        const data = await liveData("pm_focus", async () => {
+          const result = await client.pmFocus({ project: args.project, owner: args.owner });
+          return {
+            counts: result.counts,
+            blocked: compactCards(result.blocked),
+            in_review: compactCards(result.in_review),
+            stale: compactCards(result.stale),
+          };
+        });
+        return userPrompt(
+          `Triage the cards that need attention${scope(args)}.\n\n` +
+            "For each blocked card, work out the likely blocker (use get_card for details and " +
+            "conversations) and propose one next action: unblock, reassign, split or archive. " +
+            "Then review in-review and stale cards the same way. Present the proposals as a " +
+            "table and ask before changing any card with update_cards or create_comment.\n\n" +
+            `Current Codecks data:\n${data}`,
+        );
+      },
+    );
+  }
+
+  if (exposed("list_cards")) {
+    server.registerPrompt(
+      "plan_milestone",
+      {
+        title: "Plan Milestone",
+        description: "Plan the work remaining in a milestone: order, estimates and risks.",
+        argsSchema: {
+          milestone: completable(z.string().describe("Milestone name"), (value) =>
+            suggestNames(client, "milestone", value),
+          ),
+          project: name("project", "Project name"),
+          tag: name("tag", "Only plan cards with this tag"),
+        },
+      },
+      async (args) => {
+        const data = await liveData("list_cards", async () => {
+          const result = await client.listCards({
+            milestone: args.milestone,
+            project: args.project,
+            tag: args.tag,
+            status: "not_started,started,blocked,in_review",
+            includeStats: true,
+          });
+          return { stats: result.stats, cards: compactCards(result.cards) };
+        });
+        return userPrompt(
+          `Plan the remaining work in milestone '${args.milestone}'` +
+            `${args.project ? ` (project '${args.project}')` : ""}` +
+            `${args.tag ? `, cards tagged '${args.tag}'` : ""}.\n\n` +
+            "List cards without effort or priority and suggest values. Propose an order of work " +
+            "that handles blocked cards and dependencies first, flag cards that look too large " +
+            "to finish, and estimate whether the milestone is at risk. Ask before applying any " +
+            "change with update_cards.\n\n" +
+            `Open cards in the milestone:\n${data}`,
+        );
+      },
+    );
+  }
+
+  if (exposed("list_cards") && exposed("scaffold_feature")) {
+    server.registerPrompt(
+      "break_down_feature",
+      {
+        title: "Break Down Feature",
+        description: "Split a feature into lane sub-cards under a hero card.",
+        argsSchema: {
+          feature: z.string().describe("Feature title or short description"),
+          project: name("project", "Project name"),
+          milestone: name("milestone", "Milestone the feature belongs to"),
+          hero_deck: name("deck", "Deck for the hero card"),
+        },
+      },
+      async (args) => {
+        const data = await liveData("list_cards", async () => {
+          const result = await client.listCards({
+            search: args.feature,
+            project: args.project,
+            milestone: args.milestone,
+          });
+          return { cards: compactCards(result.cards).slice(0, 20) };
+        });
+        return userPrompt(
+          `Break down the feature '${args.feature}' into sub-cards.\n\n` +
+            "First check the related cards below so nothing is duplicated. Use get_lane_registry " +
+            "to pick the lanes the feature needs (code, design, art, audio) and draft one " +
+            "sub-card per lane with a title, a short checklist and an effort estimate. Show the " +
+            "draft, then create it with scaffold_feature once confirmed" +
+            `${args.hero_deck ? `, with the hero card in deck '${args.hero_deck}'` : ""}.\n\n` +
+            `Existing cards matching '${args.feature}':\n${data}`,
+        );
+      },
+    );
+  }
+}
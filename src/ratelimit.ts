@@ -0,0 +1,66 @@
+/**
+ * Client-side token-bucket rate limiter for the Codecks API.
+ * Codecks allows ~40 requests per 5 seconds; requests beyond the budget queue FIFO.
+ */
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly waiters: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly windowMs: number,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /** Requests currently waiting for a token. */
+  get queueDepth(): number {
+    return this.waiters.length;
+  }
+
+  /** Wait for a token. Resolves with the number of milliseconds spent waiting. */
+  async acquire(): Promise<number> {
+    const start = Date.now();
+    this.refill();
+    if (this.waiters.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    await new Promise<void>((resolve) => {
+      this.waiters.push(resolve);
+      this.schedule();
+    });
+    return Date.now() - start;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.windowMs);
+    this.lastRefill = now;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const msPerToken = this.windowMs / this.capacity;
+    const delay = Math.max(0, Math.ceil((1 - this.tokens) * msPerToken));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delay);
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.waiters.shift()!();
+    }
+    if (this.waiters.length > 0) this.schedule();
+  }
+}
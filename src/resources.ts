@@ -0,0 +1,229 @@
+/**
+ * MCP resources — cards, decks and milestones by URI, plus card subscriptions.
+ * Subscribed cards are polled; a change sends `notifications/resources/updated`.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { CodecksClient } from "./client.js";
+import { suggestMilestoneIds, suggestNames } from "./completions.js";
+import { config } from "./config.js";
+import { CliError } from "./errors.js";
+import { sanitizeCard, validateUuid } from "./security.js";
+
+const CARD_TEMPLATE = "codecks://card/{id}";
+const DECK_TEMPLATE = "codecks://deck/{title}";
+const MILESTONE_TEMPLATE = "codecks://milestone/{id}";
+
+const cardUri = new UriTemplate(CARD_TEMPLATE);
+
+function jsonContents(uri: URL, payload: unknown) {
+  return {
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(payload) }],
+  };
+}
+
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+// ---------------------------------------------------------------------------
+// Card subscriptions
+// ---------------------------------------------------------------------------
+
+/**
+ * Polls subscribed cards and reports the URIs whose content changed since the last poll.
+ * Polling runs only while at least one card is subscribed.
+ */
+export class CardWatcher {
+  /** Subscribed URI -> card ID and last seen fingerprint. */
+  private readonly cards = new Map<string, { id: string; fingerprint: string }>();
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private polling = false;
+
+  constructor(
+    private readonly fetchCard: (cardId: string) => Promise<unknown>,
+    private readonly notify: (uri: string) => Promise<void>,
+    private readonly intervalMs: number,
+  ) {}
+
+  get subscriptions(): string[] {
+    return [...this.cards.keys()];
+  }
+
+  /** Subscribe to a card URI. Fetches the card once so unknown cards fail here. */
+  async subscribe(uri: string): Promise<void> {
+    const match = cardUri.match(uri);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Only card resources (${CARD_TEMPLATE}) support subscriptions, got: ${uri}`,
+      );
+    }
+    if (this.cards.has(uri)) return;
+    const id = validateUuid(variable(match.id), "id");
+    const fingerprint = JSON.stringify(await this.fetchCard(id));
+    this.cards.set(uri, { id, fingerprint });
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.cards.delete(uri);
+    if (this.cards.size === 0) this.stop();
+  }
+
+  /** Check every subscribed card once. Skips a round while the previous one still runs. */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [uri, card] of this.cards) {
+        let fingerprint: string;
+        try {
+          fingerprint = JSON.stringify(await this.fetchCard(card.id));
+        } catch (err) {
+          // A deleted card is a change; anything else (network, rate limit) retries next round
+          if (!(err instanceof CliError && /not found/i.test(err.message))) continue;
+          fingerprint = "";
+        }
+        if (fingerprint === card.fingerprint || !this.cards.has(uri)) continue;
+        card.fingerprint = fingerprint;
+        await this.notify(uri).catch(() => undefined);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Register the resources. When `tools` is given, a resource is registered only if the tool
+ * serving the same data is (get_card, list_decks, list_milestones), so the tool policy
+ * hides both.
+ */
+export function registerResources(
+  server: McpServer,
+  client: CodecksClient,
+  tools?: ReadonlySet<string>,
+): void {
+  const exposed = (tool: string) => !tools || tools.has(tool);
+
+  if (exposed("get_card")) {
+    server.registerResource(
+      "card",
+      new ResourceTemplate(CARD_TEMPLATE, { list: undefined }),
+      {
+        title: "Card",
+        description: "A card with content and conversations. Subscribe to get notified of changes.",
+        mimeType: "application/json",
+      },
+      async (uri, { id }) => {
+        const cardId = validateUuid(variable(id), "id");
+        return jsonContents(uri, sanitizeCard(await client.getCard(cardId)));
+      },
+    );
+  }
+
+  if (exposed("list_decks")) {
+    server.registerResource(
+      "deck",
+      new ResourceTemplate(DECK_TEMPLATE, {
+        list: async () => {
+          try {
+            const decks = (await client.listDecks()).decks as Record<string, unknown>[];
+            return {
+              resources: decks.map((d) => ({
+                uri: `codecks://deck/${encodeURIComponent(String(d.title))}`,
+                name: String(d.title),
+              })),
+            };
+          } catch {
+            return { resources: [] }; // no credentials: leave decks out of resources/list
+          }
+        },
+        complete: { title: (value) => suggestNames(client, "deck", value) },
+      }),
+      { title: "Deck", description: "A deck by title.", mimeType: "application/json" },
+      async (uri, { title }) => {
+        const name = variable(title).toLowerCase();
+        const decks = (await client.listDecks()).decks as Record<string, unknown>[];
+        const deck = decks.find((d) => String(d.title).toLowerCase() === name);
+        if (!deck) throw new CliError(`[ERROR] Deck not found: ${variable(title)}`);
+        return jsonContents(uri, deck);
+      },
+    );
+  }
+
+  if (exposed("list_milestones")) {
+    server.registerResource(
+      "milestone",
+      new ResourceTemplate(MILESTONE_TEMPLATE, {
+        list: async () => {
+          try {
+            const milestones = (await client.listMilestones()).milestones as Record<
+              string,
+              unknown
+            >[];
+            return {
+              resources: milestones.map((m) => ({
+                uri: `codecks://milestone/${String(m.id)}`,
+                name: String(m.title),
+              })),
+            };
+          } catch {
+            return { resources: [] };
+          }
+        },
+        complete: { id: (value) => suggestMilestoneIds(client, value) },
+      }),
+      { title: "Milestone", description: "A milestone by ID.", mimeType: "application/json" },
+      async (uri, { id }) => {
+        const milestoneId = variable(id);
+        const milestones = (await client.listMilestones()).milestones as Record<string, unknown>[];
+        const milestone = milestones.find((m) => m.id === milestoneId);
+        if (!milestone) throw new CliError(`[ERROR] Milestone not found: ${milestoneId}`);
+        return jsonContents(uri, milestone);
+      },
+    );
+  }
+
+  if (config.resourcePollInterval <= 0 || !exposed("get_card")) return;
+
+  const watcher = new CardWatcher(
+    (cardId) => client.getCard(cardId),
+    (uri) => server.server.sendResourceUpdated({ uri }),
+    config.resourcePollInterval,
+  );
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await watcher.subscribe(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    watcher.unsubscribe(request.params.uri);
+    return {};
+  });
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    watcher.stop();
+    onclose?.();
+  };
+}
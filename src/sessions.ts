@@ -0,0 +1,89 @@
+/**
+ * Session store for the Streamable HTTP transport.
+ * One entry per `mcp-session-id`, with a session cap and idle expiry.
+ */
+
+export interface Closable {
+  close(): Promise<void>;
+}
+
+interface Entry<T> {
+  value: T;
+  lastSeen: number;
+}
+
+export class SessionStore<T extends Closable> {
+  private readonly entries = new Map<string, Entry<T>>();
+  private sweeper: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly options: {
+      maxSessions: number;
+      idleTimeoutMs: number;
+    },
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  ids(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  hasCapacity(): boolean {
+    return this.options.maxSessions <= 0 || this.entries.size < this.options.maxSessions;
+  }
+
+  /** Look up a session and mark it as active. */
+  get(id: string): T | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    entry.lastSeen = Date.now();
+    return entry.value;
+  }
+
+  add(id: string, value: T): void {
+    this.entries.set(id, { value, lastSeen: Date.now() });
+  }
+
+  /** Forget a session that has already closed itself. */
+  delete(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  /** Close a session and forget it. */
+  async close(id: string): Promise<boolean> {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    this.entries.delete(id);
+    await entry.value.close().catch(() => undefined);
+    return true;
+  }
+
+  /** Close sessions idle for longer than the timeout. Returns the expired IDs. */
+  async sweep(now = Date.now()): Promise<string[]> {
+    if (this.options.idleTimeoutMs <= 0) return [];
+    const expired = [...this.entries]
+      .filter(([, entry]) => now - entry.lastSeen > this.options.idleTimeoutMs)
+      .map(([id]) => id);
+    for (const id of expired) await this.close(id);
+    return expired;
+  }
+
+  startSweeper(intervalMs: number, onExpired?: (ids: string[]) => void): void {
+    if (this.sweeper || this.options.idleTimeoutMs <= 0) return;
+    this.sweeper = setInterval(() => {
+      void this.sweep().then((ids) => {
+        if (ids.length > 0) onExpired?.(ids);
+      });
+    }, intervalMs);
+    this.sweeper.unref();
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.sweeper) clearInterval(this.sweeper);
+    this.sweeper = null;
+    for (const id of this.ids()) await this.close(id);
+  }
+}
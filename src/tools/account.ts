@@ -0,0 +1,76 @@
+/**
+ * Account tools — switch_account between config file profiles.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CodecksClient } from "../client.js";
+import { contractError, toolResponse } from "../contract.js";
+import { CONFIG_FILE, config, listProfiles, profileCredentials } from "../config.js";
+import { SWITCH_ACCOUNT_OUTPUT } from "./schemas.js";
+
+export function registerAccountTools(server: McpServer, client: CodecksClient): void {
+  server.registerTool(
+    "switch_account",
+    {
+      title: "Switch Account",
+      description:
+        "Switch to another Codecks account profile from the config file. " +
+        "Omit profile to list available profiles. reset=true returns to the startup credentials.",
+      inputSchema: z.object({
+        profile: z.string().max(100).optional().describe("Profile name from the config file"),
+        reset: z.boolean().default(false).describe("Return to the startup credentials"),
+      }),
+      outputSchema: SWITCH_ACCOUNT_OUTPUT,
+      // Not read-only: it changes which Codecks account every later call acts on
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      if (args.reset) {
+        client.switchCredentials(config, "config");
+        return toolResponse({ ok: true, source: "config", account: config.account });
+      }
+
+      const profiles = listProfiles();
+      if (!args.profile) {
+        return toolResponse({
+          current: client.credentialSource,
+          account: client.credentials.account,
+          profiles,
+          config_file: CONFIG_FILE,
+        });
+      }
+
+      const credentials = profileCredentials(args.profile);
+      if (!credentials) {
+        return toolResponse(
+          contractError(
+            `[ERROR] Unknown profile '${args.profile}'. ` +
+              `Available: ${profiles.join(", ") || `(none — add profiles to ${CONFIG_FILE})`}`,
+            "setup",
+          ),
+        );
+      }
+
+      const source = `profile:${args.profile}`;
+      client.switchCredentials(credentials, source);
+      const from = (value: string) => (value ? source : "unset");
+      return toolResponse({
+        ok: true,
+        profile: args.profile,
+        account: credentials.account,
+        sources: {
+          CODECKS_TOKEN: from(credentials.sessionToken),
+          CODECKS_ACCOUNT: from(credentials.account),
+          CODECKS_USER_ID: credentials.userId ? source : "discovered on first use",
+          CODECKS_REPORT_TOKEN: from(credentials.reportToken),
+        },
+      });
+    },
+  );
+}
@@ -5,9 +5,10 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { CodecksClient } from "../client.js";
-import { contractError, finalizeToolResult } from "../contract.js";
+import { contractError, toolResponse } from "../contract.js";
 import { validateInput, validateUuid, sanitizeConversations } from "../security.js";
 import { CliError, SetupError } from "../errors.js";
+import { ENTITY_OUTPUT, THREAD_CHANGE_OUTPUT } from "./schemas.js";
 
 function handleError(err: unknown): Record<string, unknown> {
   if (err instanceof SetupError) return contractError(String(err), "setup");
@@ -25,24 +26,22 @@ export function registerCommentTools(server: McpServer, client: CodecksClient):
         card_id: z.string().describe("Full 36-char UUID"),
         message: z.string().describe("Comment message"),
       }),
+      outputSchema: THREAD_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuid(args.card_id);
         const message = validateInput(args.message, "message");
         const result = await client.createComment(args.card_id, message);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -56,23 +55,21 @@ export function registerCommentTools(server: McpServer, client: CodecksClient):
         thread_id: z.string().describe("Thread ID from list_conversations"),
         message: z.string(),
       }),
+      outputSchema: THREAD_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         const message = validateInput(args.message, "message");
         const result = await client.replyComment(args.thread_id, message);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -86,23 +83,21 @@ export function registerCommentTools(server: McpServer, client: CodecksClient):
         thread_id: z.string(),
         card_id: z.string().describe("Full 36-char UUID"),
       }),
+      outputSchema: THREAD_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuid(args.card_id);
         const result = await client.closeComment(args.thread_id, args.card_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -116,23 +111,21 @@ export function registerCommentTools(server: McpServer, client: CodecksClient):
         thread_id: z.string(),
         card_id: z.string().describe("Full 36-char UUID"),
       }),
+      outputSchema: THREAD_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuid(args.card_id);
         const result = await client.reopenComment(args.thread_id, args.card_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -145,28 +138,16 @@ export function registerCommentTools(server: McpServer, client: CodecksClient):
       inputSchema: z.object({
         card_id: z.string().describe("Full 36-char UUID"),
       }),
+      outputSchema: ENTITY_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async (args) => {
       try {
         validateUuid(args.card_id);
         const result = await client.listConversations(args.card_id);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(sanitizeConversations(result))),
-            },
-          ],
-        };
+        return toolResponse(sanitizeConversations(result));
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
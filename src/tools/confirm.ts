@@ -0,0 +1,134 @@
+/**
+ * Confirmation for destructive tools (delete_card, split_features).
+ * Asks the user via MCP elicitation when the client supports it; otherwise the first call
+ * returns a single-use confirm_token that must be passed back with the same arguments.
+ * Clients that support elicitation never get a token, so only the user can confirm.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { config } from "../config.js";
+import { contractError } from "../contract.js";
+
+const TOKEN_TTL_MS = 5 * 60_000;
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+/** Pending confirmation tokens, each bound to one action and its exact arguments. */
+export class ConfirmationStore {
+  private readonly pending = new Map<string, { key: string; expires: number }>();
+
+  constructor(readonly ttlMs = TOKEN_TTL_MS) {}
+
+  issue(key: string): string {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expires <= now) this.pending.delete(token);
+    }
+    const token = randomUUID();
+    this.pending.set(token, { key, expires: now + this.ttlMs });
+    return token;
+  }
+
+  /** True when `token` was issued for `key` and hasn't expired. Tokens work once. */
+  consume(key: string, token: string): boolean {
+    const entry = this.pending.get(token);
+    this.pending.delete(token);
+    return entry !== undefined && entry.key === key && entry.expires > Date.now();
+  }
+}
+
+/** Confirmation key for a tool call: tool name plus its arguments, minus the token itself. */
+export function confirmationKey(tool: string, args: Record<string, unknown>): string {
+  const { confirm_token: _token, ...rest } = args;
+  const sorted = Object.keys(rest)
+    .sort()
+    .map((k) => [k, rest[k]]);
+  return `${tool}:${JSON.stringify(sorted)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Confirmation flow
+// ---------------------------------------------------------------------------
+
+export interface ConfirmationRequest {
+  key: string;
+  /** confirm_token from the tool arguments, if any. */
+  token?: string;
+  /** What will happen, shown to the user in the elicitation dialog. */
+  message: string;
+  /** Affected cards and counts (user text tagged), returned to the agent with the token. */
+  preview: Record<string, unknown>;
+}
+
+/**
+ * Returns null when the action may proceed, or the tool result to return instead:
+ * a decline, a failed elicitation, an invalid token, or a `confirmation_required` result
+ * carrying a token.
+ */
+export async function confirmAction(
+  server: McpServer,
+  store: ConfirmationStore,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  request: ConfirmationRequest,
+): Promise<Record<string, unknown> | null> {
+  if (!config.confirmDestructive) return null;
+
+  if (request.token !== undefined) {
+    if (store.consume(request.key, request.token)) return null;
+    return contractError(
+      "[ERROR] confirm_token is invalid, expired, already used or was issued for different " +
+        "arguments or cards. Call again without confirm_token to get a new one.",
+      "error",
+    );
+  }
+
+  if (server.server.getClientCapabilities()?.elicitation?.form) {
+    let result;
+    try {
+      result = await server.server.elicitInput(
+        {
+          message: request.message,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              confirm: { type: "boolean", title: "Confirm", description: request.message },
+            },
+            required: ["confirm"],
+          },
+        },
+        { relatedRequestId: extra.requestId, signal: extra.signal },
+      );
+    } catch (err) {
+      // No token fallback here: the agent could pass it straight back without asking the user
+      return {
+        ...contractError(
+          `[ERROR] Could not ask the user to confirm: ${err instanceof Error ? err.message : err}. ` +
+            "Nothing was changed.",
+          "error",
+        ),
+        preview: request.preview,
+      };
+    }
+    if (result.action === "accept" && result.content?.confirm === true) return null;
+    return {
+      ...contractError("[ERROR] Cancelled: the user did not confirm.", "declined"),
+      preview: request.preview,
+    };
+  }
+
+  return {
+    ...contractError(
+      "[CONFIRM] This action needs the user's confirmation. Show them the preview and, only " +
+        "if they agree, call again with the same arguments plus confirm_token.",
+      "confirmation_required",
+    ),
+    confirm_token: store.issue(request.key),
+    expires_in_seconds: store.ttlMs / 1000,
+    preview: request.preview,
+  };
+}
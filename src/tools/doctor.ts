@@ -0,0 +1,33 @@
+/**
+ * Diagnostics tools — doctor.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CodecksClient } from "../client.js";
+import { contractError, toolResponse } from "../contract.js";
+import { runDiagnostics } from "../doctor.js";
+import { DOCTOR_OUTPUT } from "./schemas.js";
+
+export function registerDoctorTools(server: McpServer, client: CodecksClient): void {
+  server.registerTool(
+    "doctor",
+    {
+      title: "Doctor",
+      description:
+        "Check the Codecks configuration: session token, account, user ID and report token. " +
+        "Returns each check with a suggested fix, plus effective response mode and timeouts.",
+      inputSchema: z.object({}),
+      outputSchema: DOCTOR_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
+    },
+    async () => {
+      try {
+        const result = await runDiagnostics(client);
+        return toolResponse(result);
+      } catch (err) {
+        return toolResponse(contractError(`Unexpected error: ${err}`, "error"));
+      }
+    },
+  );
+}
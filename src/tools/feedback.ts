@@ -6,9 +6,10 @@ import { z } from "zod";
 import { readFileSync, writeFileSync, existsSync } from "node:fs";
 import { resolve } from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { contractError, finalizeToolResult } from "../contract.js";
+import { contractError, toolResponse } from "../contract.js";
 import { validateInput } from "../security.js";
 import { CliError } from "../errors.js";
+import { FEEDBACK_OUTPUT, FEEDBACK_SAVED_OUTPUT } from "./schemas.js";
 
 const FEEDBACK_PATH = resolve(process.cwd(), ".cli_feedback.json");
 const MAX_ITEMS = 200;
@@ -30,6 +31,13 @@ export function registerFeedbackTools(server: McpServer): void {
         tool_name: z.string().optional().describe("Which MCP tool this relates to"),
         context: z.string().optional().describe("Brief session context (max 500 chars)"),
       }),
+      outputSchema: FEEDBACK_SAVED_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async (args) => {
       try {
@@ -63,23 +71,9 @@ export function registerFeedbackTools(server: McpServer): void {
           "utf-8",
         );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult({ saved: true, total_items: items.length })),
-            },
-          ],
-        };
+        return toolResponse({ saved: true, total_items: items.length });
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -94,47 +88,26 @@ export function registerFeedbackTools(server: McpServer): void {
           .enum(["missing_feature", "bug", "error", "improvement", "usability"])
           .optional(),
       }),
+      outputSchema: FEEDBACK_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async (args) => {
       try {
         if (!existsSync(FEEDBACK_PATH)) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(finalizeToolResult({ found: false, items: [], count: 0 })),
-              },
-            ],
-          };
+          return toolResponse({ found: false, items: [], count: 0 });
         }
         const data = JSON.parse(readFileSync(FEEDBACK_PATH, "utf-8"));
         let items: Record<string, unknown>[] = data?.items ?? [];
         if (args.category) {
           items = items.filter((i) => i.category === args.category);
         }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                finalizeToolResult({
-                  found: items.length > 0,
-                  items,
-                  count: items.length,
-                }),
-              ),
-            },
-          ],
-        };
+        return toolResponse({
+          found: items.length > 0,
+          items,
+          count: items.length,
+        });
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -5,9 +5,10 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { CodecksClient } from "../client.js";
-import { contractError, finalizeToolResult } from "../contract.js";
+import { contractError, toolResponse } from "../contract.js";
 import { sanitizeCard, validateUuidList } from "../security.js";
 import { CliError, SetupError } from "../errors.js";
+import { HAND_CHANGE_OUTPUT, HAND_OUTPUT } from "./schemas.js";
 
 function handleError(err: unknown): Record<string, unknown> {
   if (err instanceof SetupError) return contractError(String(err), "setup");
@@ -43,28 +44,16 @@ export function registerHandTools(server: McpServer, client: CodecksClient): voi
       title: "List Hand",
       description: "List cards in the user's hand (personal work queue), sorted by hand order.",
       inputSchema: z.object({}),
+      outputSchema: HAND_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async () => {
       try {
         const result = await client.listHand();
         const sanitized = result.map((c) => sanitizeCard(slimCard(c)));
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(sanitized)),
-            },
-          ],
-        };
+        return toolResponse(sanitized);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -77,23 +66,21 @@ export function registerHandTools(server: McpServer, client: CodecksClient): voi
       inputSchema: z.object({
         card_ids: z.array(z.string()).describe("Full 36-char UUIDs"),
       }),
+      outputSchema: HAND_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuidList(args.card_ids);
         const result = await client.addToHand(args.card_ids);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -106,23 +93,21 @@ export function registerHandTools(server: McpServer, client: CodecksClient): voi
       inputSchema: z.object({
         card_ids: z.array(z.string()).describe("Full 36-char UUIDs"),
       }),
+      outputSchema: HAND_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuidList(args.card_ids);
         const result = await client.removeFromHand(args.card_ids);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -13,14 +13,45 @@ import { registerPmTools } from "./pm.js";
 import { registerFeedbackTools } from "./feedback.js";
 import { registerPlanningTools } from "./planning.js";
 import { registerRegistryTools } from "./registry.js";
+import { registerDoctorTools } from "./doctor.js";
+import { registerAccountTools } from "./account.js";
+import {
+  unknownPolicyEntries,
+  withToolPolicy,
+  type ToolCategory,
+  type ToolPolicy,
+} from "./policy.js";
 
-export function registerAllTools(server: McpServer, client: CodecksClient): void {
-  registerReadTools(server, client);
-  registerHandTools(server, client);
-  registerMutationTools(server, client);
-  registerCommentTools(server, client);
-  registerPmTools(server);
-  registerFeedbackTools(server);
-  registerPlanningTools(server);
-  registerRegistryTools(server);
+const OPEN_POLICY: ToolPolicy = { readOnly: false, allow: [], deny: [] };
+
+let warnedUnknownEntries = false;
+
+/** Register every tool the policy allows. Returns the names of the registered tools. */
+export function registerAllTools(
+  server: McpServer,
+  client: CodecksClient,
+  policy: ToolPolicy = OPEN_POLICY,
+): Set<string> {
+  const seen = new Set<string>();
+  const registered = new Set<string>();
+  const view = (category: ToolCategory) =>
+    withToolPolicy(server, category, policy, seen, registered);
+
+  registerReadTools(view("read"), client);
+  registerHandTools(view("hand"), client);
+  registerMutationTools(view("mutation"), client);
+  registerCommentTools(view("comments"), client);
+  registerPmTools(view("pm"));
+  registerFeedbackTools(view("feedback"));
+  registerPlanningTools(view("planning"));
+  registerRegistryTools(view("registry"));
+  registerDoctorTools(view("diagnostics"), client);
+  registerAccountTools(view("account"), client);
+
+  const unknown = unknownPolicyEntries(policy, seen);
+  if (unknown.length > 0 && !warnedUnknownEntries) {
+    warnedUnknownEntries = true;
+    console.error(`codecks-mcp: unknown tools or categories in allow/deny: ${unknown.join(", ")}`);
+  }
+  return registered;
 }
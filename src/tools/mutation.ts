@@ -4,18 +4,62 @@
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { CodecksClient } from "../client.js";
-import { contractError, finalizeToolResult } from "../contract.js";
-import { validateInput, validateUuid, validateUuidList } from "../security.js";
-import { CliError, SetupError } from "../errors.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { BatchControl, CodecksClient } from "../client.js";
+import { contractError, toolResponse } from "../contract.js";
+import { tagUserText, validateInput, validateUuid, validateUuidList } from "../security.js";
+import { CliError, DuplicateCardError, ScaffoldError, SetupError } from "../errors.js";
+import { scaffoldLanes } from "../lanes.js";
+import {
+  CARD_CHANGE_OUTPUT,
+  CREATE_CARD_OUTPUT,
+  SCAFFOLD_OUTPUT,
+  SPLIT_FEATURES_OUTPUT,
+  UPDATE_CARDS_OUTPUT,
+} from "./schemas.js";
+import { ConfirmationStore, confirmAction, confirmationKey } from "./confirm.js";
+
+/** Abort signal and progress notifications (when the caller sent a progress token). */
+function batchControl(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): BatchControl {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return { signal: extra.signal };
+  return {
+    signal: extra.signal,
+    onProgress: async (progress, total, message) => {
+      // A client that stopped listening must not fail the batch
+      await extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message },
+        })
+        .catch(() => undefined);
+    },
+  };
+}
 
 function handleError(err: unknown): Record<string, unknown> {
   if (err instanceof SetupError) return contractError(String(err), "setup");
+  if (err instanceof DuplicateCardError) {
+    return { ...contractError(String(err), "error"), duplicates: err.candidates };
+  }
+  if (err instanceof ScaffoldError) {
+    return {
+      ...contractError(String(err), "error"),
+      rolled_back: err.rolledBack,
+      rollback_failed: err.rollbackFailed,
+    };
+  }
   if (err instanceof CliError) return contractError(String(err), "error");
   return contractError(`Unexpected error: ${err}`, "error");
 }
 
+/** Shown in previews; the rest are summarized as a count. */
+const PREVIEW_TITLES = 10;
+
 export function registerMutationTools(server: McpServer, client: CodecksClient): void {
+  const confirmations = new ConfirmationStore();
+
   server.registerTool(
     "create_card",
     {
@@ -29,14 +73,25 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
         project: z.string().optional(),
         severity: z.enum(["critical", "high", "low", "null"]).optional(),
         doc: z.boolean().default(false).describe("True for doc card"),
-        allow_duplicate: z.boolean().default(false),
+        allow_duplicate: z
+          .boolean()
+          .default(false)
+          .describe("Skip the duplicate-title check against existing cards"),
         parent: z.string().optional().describe("Parent card UUID for sub-cards"),
       }),
+      outputSchema: CREATE_CARD_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         const title = validateInput(args.title, "title");
         const content = args.content ? validateInput(args.content, "content") : undefined;
+        if (args.parent) validateUuid(args.parent, "parent");
         const result = await client.createCard({
           title,
           content,
@@ -47,18 +102,9 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
           allowDuplicate: args.allow_duplicate,
           parent: args.parent,
         });
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -84,39 +130,41 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
         doc: z.enum(["true", "false"]).optional(),
         continue_on_error: z.boolean().default(false),
       }),
+      outputSchema: UPDATE_CARDS_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
         validateUuidList(args.card_ids);
+        if (args.hero && args.hero !== "none") validateUuid(args.hero, "hero");
         if (args.title) validateInput(args.title, "title");
         if (args.content) validateInput(args.content, "content");
-        const result = await client.updateCards({
-          cardIds: args.card_ids,
-          status: args.status,
-          priority: args.priority,
-          effort: args.effort,
-          deck: args.deck,
-          title: args.title,
-          content: args.content,
-          milestone: args.milestone,
-          hero: args.hero,
-          owner: args.owner,
-          tags: args.tags,
-          doc: args.doc,
-          continueOnError: args.continue_on_error,
-        });
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        const result = await client.updateCards(
+          {
+            cardIds: args.card_ids,
+            status: args.status,
+            priority: args.priority,
+            effort: args.effort,
+            deck: args.deck,
+            title: args.title,
+            content: args.content,
+            milestone: args.milestone,
+            hero: args.hero,
+            owner: args.owner,
+            tags: args.tags,
+            doc: args.doc,
+            continueOnError: args.continue_on_error,
+          },
+          batchControl(extra),
+        );
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -129,23 +177,21 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
       inputSchema: z.object({
         card_ids: z.array(z.string()).describe("Full 36-char UUIDs"),
       }),
+      outputSchema: UPDATE_CARDS_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuidList(args.card_ids);
         const result = await client.markDone(args.card_ids);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -158,23 +204,21 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
       inputSchema: z.object({
         card_ids: z.array(z.string()).describe("Full 36-char UUIDs"),
       }),
+      outputSchema: UPDATE_CARDS_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuidList(args.card_ids);
         const result = await client.markStarted(args.card_ids);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -187,23 +231,21 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
       inputSchema: z.object({
         card_id: z.string().describe("Full 36-char UUID"),
       }),
+      outputSchema: CARD_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuid(args.card_id);
         const result = await client.archiveCard(args.card_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -216,23 +258,21 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
       inputSchema: z.object({
         card_id: z.string().describe("Full 36-char UUID"),
       }),
+      outputSchema: CARD_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
         validateUuid(args.card_id);
         const result = await client.unarchiveCard(args.card_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -242,27 +282,49 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
     {
       title: "Delete Card",
       description:
-        "Permanently delete a card. Cannot be undone — use archive_card if reversibility needed.",
+        "Permanently delete a card. Cannot be undone — use archive_card if reversibility needed. " +
+        "Asks the user to confirm, or returns a confirm_token to pass back once they agree.",
       inputSchema: z.object({
         card_id: z.string().describe("Full 36-char UUID"),
+        confirm_token: z
+          .string()
+          .optional()
+          .describe("From a confirmation_required result; only after the user agreed"),
       }),
+      outputSchema: CARD_CHANGE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
         validateUuid(args.card_id);
+        const card = await client
+          .getCard(args.card_id, { includeContent: false, includeConversations: false })
+          .catch((err) => {
+            if (!(err instanceof CliError)) throw err;
+            return client.getCard(args.card_id, {
+              includeContent: false,
+              includeConversations: false,
+              archived: true,
+            });
+          });
+        const title = String(card.title ?? args.card_id);
+        const refusal = await confirmAction(server, confirmations, extra, {
+          key: confirmationKey("delete_card", args),
+          token: args.confirm_token,
+          message: `Permanently delete card '${title}'? This cannot be undone.`,
+          preview: { card_id: args.card_id, title: tagUserText(title), status: card.status },
+        });
+        if (refusal) return toolResponse(refusal);
+
         const result = await client.deleteCard(args.card_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -271,7 +333,9 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
     "scaffold_feature",
     {
       title: "Scaffold Feature",
-      description: "Create a Hero card with Code/Design/Art/Audio sub-cards.",
+      description:
+        "Create a Hero card with Code/Design/Art/Audio sub-cards in their lane decks, " +
+        "pre-filled with the lane checklist and tags.",
       inputSchema: z.object({
         title: z.string().describe("Feature title"),
         hero_deck: z.string(),
@@ -282,11 +346,32 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
         audio_deck: z.string().optional().describe("Required unless skip_audio=true"),
         skip_audio: z.boolean().default(false),
         description: z.string().optional(),
-        owner: z.string().optional(),
+        owner: z.string().optional().describe("Owner name; inherited by sub-cards"),
         priority: z.enum(["a", "b", "c", "null"]).optional(),
         effort: z.number().optional(),
-        allow_duplicate: z.boolean().default(false),
+        lane_overrides: z
+          .record(
+            z.enum(["code", "design", "art", "audio"]),
+            z.object({
+              owner: z.string().optional(),
+              priority: z.enum(["a", "b", "c", "null"]).optional(),
+              effort: z.number().optional(),
+            }),
+          )
+          .optional()
+          .describe("Per-lane owner/priority/effort instead of the hero's"),
+        allow_duplicate: z
+          .boolean()
+          .default(false)
+          .describe("Skip the duplicate-title check against existing cards"),
       }),
+      outputSchema: SCAFFOLD_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
     async (args) => {
       try {
@@ -307,20 +392,12 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
           owner: args.owner,
           priority: args.priority,
           effort: args.effort,
+          laneOverrides: args.lane_overrides,
           allowDuplicate: args.allow_duplicate,
         });
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -330,7 +407,8 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
     {
       title: "Split Features",
       description:
-        "Batch-split unsplit feature cards into lane sub-cards. Use dry_run=true to preview.",
+        "Batch-split unsplit feature cards into lane sub-cards. Use dry_run=true to preview. " +
+        "Asks the user to confirm, or returns a confirm_token to pass back once they agree.",
       inputSchema: z.object({
         deck: z.string().describe("Source deck containing feature cards"),
         code_deck: z.string(),
@@ -341,11 +419,22 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
         skip_audio: z.boolean().default(false),
         priority: z.enum(["a", "b", "c", "null"]).optional(),
         dry_run: z.boolean().default(false),
+        confirm_token: z
+          .string()
+          .optional()
+          .describe("From a confirmation_required result; only after the user agreed"),
       }),
+      outputSchema: SPLIT_FEATURES_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const result = await client.splitFeatures({
+        const options = {
           deck: args.deck,
           codeDeck: args.code_deck,
           designDeck: args.design_deck,
@@ -354,20 +443,45 @@ export function registerMutationTools(server: McpServer, client: CodecksClient):
           audioDeck: args.audio_deck,
           skipAudio: args.skip_audio,
           priority: args.priority,
-          dryRun: args.dry_run,
-        });
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
         };
+        let featureIds: string[] | undefined;
+        if (!args.dry_run) {
+          const plan = await client.splitFeatures({ ...options, dryRun: true });
+          const features = (plan.features ?? []) as Record<string, unknown>[];
+          // Confirm exactly these cards: the token is bound to them, and the split skips any
+          // feature card added to the deck after the preview
+          featureIds = features.map((f) => String(f.id));
+          if (features.length > 0) {
+            // Each feature gets a hero card plus one sub-card per scaffolded lane
+            const perFeature = 1 + scaffoldLanes(options).length;
+            const names = features
+              .slice(0, PREVIEW_TITLES)
+              .map((f) => `'${String(f.title)}'`)
+              .join(", ");
+            const more = features.length - PREVIEW_TITLES;
+            const refusal = await confirmAction(server, confirmations, extra, {
+              key: confirmationKey("split_features", { ...args, feature_ids: featureIds }),
+              token: args.confirm_token,
+              message:
+                `Split ${features.length} feature card(s) in deck '${args.deck}', creating ` +
+                `${features.length * perFeature} cards: ${names}${more > 0 ? ` and ${more} more` : ""}.`,
+              preview: {
+                features_found: features.length,
+                cards_to_create: features.length * perFeature,
+                features: features.map((f) => ({ id: f.id, title: tagUserText(String(f.title)) })),
+              },
+            });
+            if (refusal) return toolResponse(refusal);
+          }
+        }
+
+        const result = await client.splitFeatures(
+          { ...options, dryRun: args.dry_run, featureIds },
+          batchControl(extra),
+        );
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -7,8 +7,14 @@ import { z } from "zod";
 import { readFileSync, writeFileSync, existsSync, appendFileSync } from "node:fs";
 import { resolve } from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { contractError, finalizeToolResult } from "../contract.js";
+import { contractError, toolResponse } from "../contract.js";
 import { CliError } from "../errors.js";
+import {
+  PLANNING_INIT_OUTPUT,
+  PLANNING_MEASURE_OUTPUT,
+  PLANNING_STATUS_OUTPUT,
+  PLANNING_UPDATE_OUTPUT,
+} from "./schemas.js";
 
 const PLAN_DIR = process.cwd();
 const PLAN_FILE = "task_plan.md";
@@ -161,6 +167,13 @@ export function registerPlanningTools(server: McpServer): void {
       inputSchema: z.object({
         force: z.boolean().default(false).describe("Overwrite existing files (default false)"),
       }),
+      outputSchema: PLANNING_INIT_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async (args) => {
       try {
@@ -183,23 +196,9 @@ export function registerPlanningTools(server: McpServer): void {
           }
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult({ ok: true, created, skipped })),
-            },
-          ],
-        };
+        return toolResponse({ ok: true, created, skipped });
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -211,24 +210,17 @@ export function registerPlanningTools(server: McpServer): void {
       description:
         "Get compact planning status: goal, phases, decisions, errors, token count. No auth needed.",
       inputSchema: z.object({}),
+      outputSchema: PLANNING_STATUS_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async () => {
       try {
         const path = planPath(PLAN_FILE);
         if (!existsSync(path)) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  finalizeToolResult({
-                    ok: false,
-                    error: "No task_plan.md found. Run planning_init first.",
-                  }),
-                ),
-              },
-            ],
-          };
+          return toolResponse({
+            ok: false,
+            error: "No task_plan.md found. Run planning_init first.",
+          });
         }
 
         const content = readFileSync(path, "utf-8");
@@ -243,31 +235,15 @@ export function registerPlanningTools(server: McpServer): void {
 
         const tokens = Math.ceil(content.length / 4); // rough estimate
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                finalizeToolResult({
-                  ok: true,
-                  goal: goalMatch?.[1]?.trim() ?? "Not set",
-                  current_phase: phaseMatch?.[1]?.trim() ?? "Unknown",
-                  phases,
-                  estimated_tokens: tokens,
-                }),
-              ),
-            },
-          ],
-        };
+        return toolResponse({
+          ok: true,
+          goal: goalMatch?.[1]?.trim() ?? "Not set",
+          current_phase: phaseMatch?.[1]?.trim() ?? "Unknown",
+          phases,
+          estimated_tokens: tokens,
+        });
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -302,6 +278,13 @@ export function registerPlanningTools(server: McpServer): void {
         actual: z.string().optional(),
         result: z.string().optional(),
       }),
+      outputSchema: PLANNING_UPDATE_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
     },
     async (args) => {
       try {
@@ -314,28 +297,14 @@ export function registerPlanningTools(server: McpServer): void {
             let content = readFileSync(path, "utf-8");
             content = content.replace(/## Goal\n.+/, `## Goal\n${text}`);
             writeFileSync(path, content, "utf-8");
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(finalizeToolResult({ ok: true, operation: "goal", text })),
-                },
-              ],
-            };
+            return toolResponse({ ok: true, operation: "goal", text });
           }
 
           case "log": {
             if (!text) throw new CliError("log operation requires text");
             const path = planPath(PROGRESS_FILE);
             appendFileSync(path, `\n  - ${text}`, "utf-8");
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(finalizeToolResult({ ok: true, operation: "log", text })),
-                },
-              ],
-            };
+            return toolResponse({ ok: true, operation: "log", text });
           }
 
           case "error": {
@@ -347,14 +316,7 @@ export function registerPlanningTools(server: McpServer): void {
               `| ${text} | 1 |  |\n|       | 1       |            |`,
             );
             writeFileSync(path, content, "utf-8");
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(finalizeToolResult({ ok: true, operation: "error", text })),
-                },
-              ],
-            };
+            return toolResponse({ ok: true, operation: "error", text });
           }
 
           case "decision": {
@@ -367,20 +329,11 @@ export function registerPlanningTools(server: McpServer): void {
               `| ${text} | ${rationale} |\n|          |           |\n\n## Errors`,
             );
             writeFileSync(path, content, "utf-8");
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    finalizeToolResult({
-                      ok: true,
-                      operation: "decision",
-                      text,
-                    }),
-                  ),
-                },
-              ],
-            };
+            return toolResponse({
+              ok: true,
+              operation: "decision",
+              text,
+            });
           }
 
           case "finding": {
@@ -390,47 +343,22 @@ export function registerPlanningTools(server: McpServer): void {
             let content = readFileSync(path, "utf-8");
             content = content.replace(new RegExp(`(## ${section}\n)`), `$1- ${text}\n`);
             writeFileSync(path, content, "utf-8");
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    finalizeToolResult({
-                      ok: true,
-                      operation: "finding",
-                      text,
-                    }),
-                  ),
-                },
-              ],
-            };
+            return toolResponse({
+              ok: true,
+              operation: "finding",
+              text,
+            });
           }
 
           default:
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    finalizeToolResult({
-                      ok: true,
-                      operation,
-                      note: "Operation acknowledged",
-                    }),
-                  ),
-                },
-              ],
-            };
+            return toolResponse({
+              ok: true,
+              operation,
+              note: "Operation acknowledged",
+            });
         }
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -444,6 +372,13 @@ export function registerPlanningTools(server: McpServer): void {
       inputSchema: z.object({
         operation: z.enum(["snapshot", "report", "compare_templates"]),
       }),
+      outputSchema: PLANNING_MEASURE_OUTPUT,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async (args) => {
       try {
@@ -462,31 +397,15 @@ export function registerPlanningTools(server: McpServer): void {
           }
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                finalizeToolResult({
-                  ok: true,
-                  operation: args.operation,
-                  files: measurements,
-                  total_chars: totalChars,
-                  total_tokens: Math.ceil(totalChars / 4),
-                }),
-              ),
-            },
-          ],
-        };
+        return toolResponse({
+          ok: true,
+          operation: args.operation,
+          files: measurements,
+          total_chars: totalChars,
+          total_tokens: Math.ceil(totalChars / 4),
+        });
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
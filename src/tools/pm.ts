@@ -6,9 +6,10 @@ import { z } from "zod";
 import { readFileSync, writeFileSync, existsSync } from "node:fs";
 import { resolve } from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { contractError, finalizeToolResult } from "../contract.js";
+import { contractError, toolResponse } from "../contract.js";
 import { validateInput, tagUserText } from "../security.js";
 import { CliError } from "../errors.js";
+import { PLAYBOOK_OUTPUT, PREFERENCES_OUTPUT, PREFERENCES_SAVED_OUTPUT } from "./schemas.js";
 
 const PREFS_PATH = resolve(process.cwd(), ".pm_preferences.json");
 
@@ -24,21 +25,18 @@ export function registerPmTools(server: McpServer): void {
       title: "Get PM Playbook",
       description: "Get PM session methodology guide. No auth needed.",
       inputSchema: z.object({}),
+      outputSchema: PLAYBOOK_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async () => {
       // The playbook would be bundled or fetched. For now, return a stub.
       const playbook =
         "PM Playbook: Use pm_focus for dashboard, standup for daily summary. " +
         "Prioritize blocked cards first, then stale cards. " +
-        "Save observations with save_workflow_preferences.";
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(finalizeToolResult({ playbook })),
-          },
-        ],
-      };
+        "Save observations with save_workflow_preferences. " +
+        "Guided workflows are available as prompts: daily_standup, triage_blocked, " +
+        "plan_milestone, break_down_feature.";
+      return toolResponse({ playbook });
     },
   );
 
@@ -48,39 +46,20 @@ export function registerPmTools(server: McpServer): void {
       title: "Get Workflow Preferences",
       description: "Load user workflow preferences from past sessions. No auth needed.",
       inputSchema: z.object({}),
+      outputSchema: PREFERENCES_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async () => {
       try {
         if (!existsSync(PREFS_PATH)) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(finalizeToolResult({ found: false, preferences: [] })),
-              },
-            ],
-          };
+          return toolResponse({ found: false, preferences: [] });
         }
         const data = JSON.parse(readFileSync(PREFS_PATH, "utf-8"));
         const raw = data.observations ?? [];
         const prefs = raw.map((p: unknown) => (typeof p === "string" ? tagUserText(p) : p));
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult({ found: true, preferences: prefs })),
-            },
-          ],
-        };
+        return toolResponse({ found: true, preferences: prefs });
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -95,6 +74,13 @@ export function registerPmTools(server: McpServer): void {
           .array(z.string())
           .describe("Workflow patterns observed (max 50 items, 500 chars each)"),
       }),
+      outputSchema: PREFERENCES_SAVED_OUTPUT,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
     },
     async (args) => {
       try {
@@ -106,23 +92,9 @@ export function registerPmTools(server: McpServer): void {
           updated_at: new Date().toISOString(),
         };
         writeFileSync(PREFS_PATH, JSON.stringify(data, null, 2), "utf-8");
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult({ saved: validated.length })),
-            },
-          ],
-        };
+        return toolResponse({ saved: validated.length });
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -0,0 +1,82 @@
+/**
+ * Tool policy — read-only mode and allowlist/denylist by tool name or category.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+
+export const TOOL_CATEGORIES = [
+  "read",
+  "hand",
+  "mutation",
+  "comments",
+  "pm",
+  "feedback",
+  "planning",
+  "registry",
+  "diagnostics",
+  "account",
+] as const;
+
+export type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+export interface ToolPolicy {
+  /**
+   * Leave out every tool not annotated `readOnlyHint: true`. That includes switch_account:
+   * a read-only agent must not move itself onto another account's credentials.
+   */
+  readOnly: boolean;
+  /** Tool names or categories to expose. Empty = everything. */
+  allow: string[];
+  /** Tool names or categories to hide. Wins over `allow`. */
+  deny: string[];
+}
+
+export function toolAllowed(
+  name: string,
+  category: ToolCategory,
+  policy: ToolPolicy,
+  annotations: ToolAnnotations = {},
+): boolean {
+  if (policy.readOnly && annotations.readOnlyHint !== true) return false;
+  if (policy.deny.includes(name) || policy.deny.includes(category)) return false;
+  return (
+    policy.allow.length === 0 || policy.allow.includes(name) || policy.allow.includes(category)
+  );
+}
+
+/**
+ * A view of `server` whose registerTool skips tools the policy leaves out.
+ * Every tool name lands in `seen`; the ones actually registered also land in `registered`.
+ */
+export function withToolPolicy(
+  server: McpServer,
+  category: ToolCategory,
+  policy: ToolPolicy,
+  seen: Set<string>,
+  registered: Set<string>,
+): McpServer {
+  const view = Object.create(server) as McpServer;
+  const register = server.registerTool.bind(server) as (
+    name: string,
+    config: { annotations?: ToolAnnotations },
+    ...rest: unknown[]
+  ) => unknown;
+  view.registerTool = ((
+    name: string,
+    config: { annotations?: ToolAnnotations },
+    ...rest: unknown[]
+  ) => {
+    seen.add(name);
+    if (!toolAllowed(name, category, policy, config.annotations)) return undefined;
+    registered.add(name);
+    return register(name, config, ...rest);
+  }) as McpServer["registerTool"];
+  return view;
+}
+
+/** Allow/deny entries that match no known tool or category (likely typos). */
+export function unknownPolicyEntries(policy: ToolPolicy, toolNames: Set<string>): string[] {
+  const categories = new Set<string>(TOOL_CATEGORIES);
+  return [...policy.allow, ...policy.deny].filter((e) => !toolNames.has(e) && !categories.has(e));
+}
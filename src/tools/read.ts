@@ -5,9 +5,21 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { CodecksClient } from "../client.js";
-import { contractError, finalizeToolResult } from "../contract.js";
+import { contractError, toolResponse } from "../contract.js";
 import { sanitizeCard, sanitizeActivity, validateUuid } from "../security.js";
 import { CliError, SetupError } from "../errors.js";
+import {
+  ACTIVITY_OUTPUT,
+  CARD_LIST_OUTPUT,
+  CARD_OUTPUT,
+  DECKS_OUTPUT,
+  ENTITY_OUTPUT,
+  MILESTONES_OUTPUT,
+  PM_FOCUS_OUTPUT,
+  PROJECTS_OUTPUT,
+  STANDUP_OUTPUT,
+  TAGS_OUTPUT,
+} from "./schemas.js";
 
 // Slim card: drop redundant raw IDs for token efficiency
 const SLIM_DROP = new Set([
@@ -44,22 +56,15 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
       title: "Get Account",
       description: "Get current account info (name, id, email, role).",
       inputSchema: z.object({}),
+      outputSchema: ENTITY_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async () => {
       try {
         const result = await client.getAccount();
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -92,12 +97,19 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
         updated_before: z.string().optional().describe("YYYY-MM-DD"),
         archived: z.boolean().default(false),
         include_stats: z.boolean().default(false),
+        refresh: z
+          .boolean()
+          .default(false)
+          .describe("Re-fetch cached deck/project/milestone/tag names"),
         limit: z.number().default(50),
         offset: z.number().default(0),
       }),
+      outputSchema: CARD_LIST_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async (args) => {
       try {
+        if (args.hero) validateUuid(args.hero, "hero");
         const result = await client.listCards({
           deck: args.deck,
           status: args.status,
@@ -116,6 +128,7 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
           updatedBefore: args.updated_before,
           archived: args.archived,
           includeStats: args.include_stats,
+          refresh: args.refresh,
         });
 
         const allCards = (result.cards ?? []) as Record<string, unknown>[];
@@ -129,18 +142,9 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
           limit: args.limit,
           offset: args.offset,
         };
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(payload)) }],
-        };
+        return toolResponse(payload);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -160,6 +164,8 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
         include_conversations: z.boolean().default(true).describe("False to skip comment threads"),
         archived: z.boolean().default(false),
       }),
+      outputSchema: CARD_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async (args) => {
       try {
@@ -169,23 +175,9 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
           includeConversations: args.include_conversations,
           archived: args.archived,
         });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(sanitizeCard(result))),
-            },
-          ],
-        };
+        return toolResponse(sanitizeCard(result));
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -197,23 +189,17 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
       description: "List all decks. Set include_card_counts=True for per-deck counts.",
       inputSchema: z.object({
         include_card_counts: z.boolean().default(false),
+        refresh: z.boolean().default(false).describe("Bypass the metadata cache"),
       }),
+      outputSchema: DECKS_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
-    async (_args) => {
+    async (args) => {
       try {
-        const result = await client.listDecks();
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        const result = await client.listDecks({ refresh: args.refresh });
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -223,23 +209,18 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
     {
       title: "List Projects",
       description: "List all projects with deck info.",
-      inputSchema: z.object({}),
+      inputSchema: z.object({
+        refresh: z.boolean().default(false).describe("Bypass the metadata cache"),
+      }),
+      outputSchema: PROJECTS_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
-    async () => {
+    async (args) => {
       try {
-        const result = await client.listProjects();
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        const result = await client.listProjects({ refresh: args.refresh });
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -249,23 +230,18 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
     {
       title: "List Milestones",
       description: "List all milestones with card counts.",
-      inputSchema: z.object({}),
+      inputSchema: z.object({
+        refresh: z.boolean().default(false).describe("Bypass the metadata cache"),
+      }),
+      outputSchema: MILESTONES_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
-    async () => {
+    async (args) => {
       try {
-        const result = await client.listMilestones();
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        const result = await client.listMilestones({ refresh: args.refresh });
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -275,23 +251,18 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
     {
       title: "List Tags",
       description: "List project-level tags (sanctioned taxonomy).",
-      inputSchema: z.object({}),
+      inputSchema: z.object({
+        refresh: z.boolean().default(false).describe("Bypass the metadata cache"),
+      }),
+      outputSchema: TAGS_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
-    async () => {
+    async (args) => {
       try {
-        const result = await client.listTags();
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        const result = await client.listTags({ refresh: args.refresh });
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -304,27 +275,15 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
       inputSchema: z.object({
         limit: z.number().default(20),
       }),
+      outputSchema: ACTIVITY_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async (args) => {
       try {
         const result = await client.listActivity(args.limit);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(sanitizeActivity(result))),
-            },
-          ],
-        };
+        return toolResponse(sanitizeActivity(result));
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -340,6 +299,8 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
         limit: z.number().default(5).describe("Max cards per category"),
         stale_days: z.number().default(14).describe("Days since last update to consider stale"),
       }),
+      outputSchema: PM_FOCUS_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async (args) => {
       try {
@@ -357,18 +318,9 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
             ).map((c) => sanitizeCard(slimCard(c)));
           }
         }
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
@@ -383,6 +335,8 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
         project: z.string().optional(),
         owner: z.string().optional(),
       }),
+      outputSchema: STANDUP_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: true },
     },
     async (args) => {
       try {
@@ -398,18 +352,9 @@ export function registerReadTools(server: McpServer, client: CodecksClient): voi
             ).map((c) => sanitizeCard(slimCard(c)));
           }
         }
-        return {
-          content: [{ type: "text", text: JSON.stringify(finalizeToolResult(result)) }],
-        };
+        return toolResponse(result);
       } catch (err) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(finalizeToolResult(handleError(err))),
-            },
-          ],
-        };
+        return toolResponse(handleError(err));
       }
     },
   );
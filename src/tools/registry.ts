@@ -5,7 +5,9 @@
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { finalizeToolResult } from "../contract.js";
+import { toolResponse } from "../contract.js";
+import { LANES } from "../lanes.js";
+import { LANE_REGISTRY_OUTPUT, TAG_REGISTRY_OUTPUT } from "./schemas.js";
 
 // ---------------------------------------------------------------------------
 // Tag definitions (mirrors codecks_cli/tags.py)
@@ -77,59 +79,6 @@ const LANE_TAGS: Record<string, string[]> = {
   audio: ["audio"],
 };
 
-// ---------------------------------------------------------------------------
-// Lane definitions (mirrors codecks_cli/lanes.py)
-// ---------------------------------------------------------------------------
-
-interface LaneDefinition {
-  name: string;
-  displayName: string;
-  required: boolean;
-  keywords: string[];
-  defaultChecklist: string[];
-  tags: string[];
-  cliHelp: string;
-}
-
-const LANES: LaneDefinition[] = [
-  {
-    name: "code",
-    displayName: "Code",
-    required: true,
-    keywords: ["programming", "implementation", "backend", "frontend"],
-    defaultChecklist: ["- [] Implementation", "- [] Unit tests", "- [] Code review"],
-    tags: ["code"],
-    cliHelp: "Destination deck for Code sub-cards",
-  },
-  {
-    name: "design",
-    displayName: "Design",
-    required: true,
-    keywords: ["ui", "ux", "wireframe", "mockup", "layout"],
-    defaultChecklist: ["- [] Wireframes", "- [] Visual design", "- [] Design review"],
-    tags: ["design"],
-    cliHelp: "Destination deck for Design sub-cards",
-  },
-  {
-    name: "art",
-    displayName: "Art",
-    required: false,
-    keywords: ["sprite", "texture", "model", "animation", "illustration"],
-    defaultChecklist: ["- [] Concept art", "- [] Asset creation", "- [] Art review"],
-    tags: ["art"],
-    cliHelp: "Destination deck for Art sub-cards (optional)",
-  },
-  {
-    name: "audio",
-    displayName: "Audio",
-    required: false,
-    keywords: ["sound", "music", "sfx", "voice"],
-    defaultChecklist: ["- [] Sound design", "- [] Implementation", "- [] Audio review"],
-    tags: ["audio"],
-    cliHelp: "Destination deck for Audio sub-cards (optional)",
-  },
-];
-
 // ---------------------------------------------------------------------------
 // Register tools
 // ---------------------------------------------------------------------------
@@ -147,6 +96,8 @@ export function registerRegistryTools(server: McpServer): void {
           .optional()
           .describe("Filter to system or discipline tags only"),
       }),
+      outputSchema: TAG_REGISTRY_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async (args) => {
       let tags = TAGS;
@@ -161,21 +112,12 @@ export function registerRegistryTools(server: McpServer): void {
         description: t.description,
       }));
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              finalizeToolResult({
-                tags: tagDicts,
-                count: tagDicts.length,
-                hero_tags: [...HERO_TAGS],
-                lane_tags: LANE_TAGS,
-              }),
-            ),
-          },
-        ],
-      };
+      return toolResponse({
+        tags: tagDicts,
+        count: tagDicts.length,
+        hero_tags: [...HERO_TAGS],
+        lane_tags: LANE_TAGS,
+      });
     },
   );
 
@@ -187,6 +129,8 @@ export function registerRegistryTools(server: McpServer): void {
       inputSchema: z.object({
         required_only: z.boolean().default(false).describe("If true, return only required lanes"),
       }),
+      outputSchema: LANE_REGISTRY_OUTPUT,
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     async (args) => {
       let lanes = LANES;
@@ -204,21 +148,12 @@ export function registerRegistryTools(server: McpServer): void {
         cli_help: l.cliHelp,
       }));
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              finalizeToolResult({
-                lanes: laneDicts,
-                count: laneDicts.length,
-                required_lanes: LANES.filter((l) => l.required).map((l) => l.name),
-                optional_lanes: LANES.filter((l) => !l.required).map((l) => l.name),
-              }),
-            ),
-          },
-        ],
-      };
+      return toolResponse({
+        lanes: laneDicts,
+        count: laneDicts.length,
+        required_lanes: LANES.filter((l) => l.required).map((l) => l.name),
+        optional_lanes: LANES.filter((l) => !l.required).map((l) => l.name),
+      });
     },
   );
 }
@@ -0,0 +1,219 @@
+/**
+ * Output schemas — the `structuredContent` shape of each tool's successful result.
+ * Contract errors are flagged `isError` without structured content (see toolResponse), so
+ * these describe success payloads only. Fields only some calls return are optional.
+ */
+
+import { z } from "zod";
+import { config } from "../config.js";
+
+const entity = z.record(z.unknown());
+const entityList = z.array(entity);
+
+/** A success payload in the configured response mode: flat, or nested under `data`. */
+function toolOutput<T extends z.ZodRawShape>(shape: T) {
+  const payload = z.object(shape).passthrough();
+  const contract = { ok: z.literal(true), schema_version: z.string() };
+  if (config.mcpResponseMode === "envelope") return z.object({ ...contract, data: payload });
+  return payload.extend(contract);
+}
+
+/** Legacy mode returns list payloads bare, which structured content wraps as `{ result }`. */
+function listOutput<T extends z.ZodTypeAny>(item: T) {
+  if (config.mcpResponseMode === "envelope") {
+    return z.object({ ok: z.literal(true), schema_version: z.string(), data: z.array(item) });
+  }
+  return z.object({ result: z.array(item) });
+}
+
+// ---------------------------------------------------------------------------
+// Codecks
+// ---------------------------------------------------------------------------
+
+/** Raw query results (entity maps keyed by ID). */
+export const ENTITY_OUTPUT = toolOutput({});
+
+export const CARD_OUTPUT = toolOutput({
+  id: z.string(),
+  title: z.string(),
+  status: z.string(),
+});
+
+export const CARD_LIST_OUTPUT = toolOutput({
+  cards: entityList,
+  stats: z.record(z.number()).nullable(),
+  total_count: z.number(),
+  has_more: z.boolean(),
+  limit: z.number(),
+  offset: z.number(),
+});
+
+export const HAND_OUTPUT = listOutput(entity);
+
+export const DECKS_OUTPUT = toolOutput({ decks: entityList });
+export const PROJECTS_OUTPUT = toolOutput({ projects: entityList });
+export const MILESTONES_OUTPUT = toolOutput({ milestones: entityList });
+export const TAGS_OUTPUT = toolOutput({ tags: entityList });
+
+export const ACTIVITY_OUTPUT = toolOutput({ entries: entityList, count: z.number() });
+
+export const PM_FOCUS_OUTPUT = toolOutput({
+  counts: z.record(z.number()),
+  blocked: entityList,
+  in_review: entityList,
+  stale: entityList,
+  suggested: entityList,
+});
+
+export const STANDUP_OUTPUT = toolOutput({
+  recently_done: entityList,
+  in_progress: entityList,
+  blocked: entityList,
+  hand: entityList,
+});
+
+export const HAND_CHANGE_OUTPUT = toolOutput({
+  added: z.number().optional(),
+  removed: z.number().optional(),
+  result: z.unknown(),
+});
+
+export const CREATE_CARD_OUTPUT = toolOutput({
+  card_id: z.string(),
+  title: z.string(),
+  // Not set when the card was created through the report token
+  deck_id: z.string().nullable().optional(),
+  parent_id: z.string().nullable().optional(),
+  is_doc: z.boolean().optional(),
+  warnings: z.array(z.string()).optional(),
+});
+
+export const UPDATE_CARDS_OUTPUT = toolOutput({
+  updated: z.number(),
+  results: entityList,
+  cancelled: z.boolean().optional(),
+  not_attempted: z.array(z.string()).optional(),
+});
+
+export const CARD_CHANGE_OUTPUT = toolOutput({ card_id: z.string(), result: z.unknown() });
+
+export const SCAFFOLD_OUTPUT = toolOutput({
+  hero_id: z.string(),
+  title: z.string(),
+  subcards: entityList,
+  warnings: z.array(z.string()).optional(),
+});
+
+/** Dry runs list the features found; real runs report what was split. */
+export const SPLIT_FEATURES_OUTPUT = toolOutput({
+  dry_run: z.boolean().optional(),
+  features_found: z.number().optional(),
+  features: entityList.optional(),
+  features_processed: z.number().optional(),
+  features_skipped: z.number().optional(),
+  details: entityList.optional(),
+  cancelled: z.boolean().optional(),
+  features_not_started: entityList.optional(),
+});
+
+/** New threads report their card; replies and status changes report the thread. */
+export const THREAD_CHANGE_OUTPUT = toolOutput({
+  card_id: z.string().optional(),
+  thread_id: z.string().optional(),
+  result: z.unknown(),
+});
+
+// ---------------------------------------------------------------------------
+// Local
+// ---------------------------------------------------------------------------
+
+export const PLAYBOOK_OUTPUT = toolOutput({ playbook: z.string() });
+
+export const PREFERENCES_OUTPUT = toolOutput({
+  found: z.boolean(),
+  preferences: z.array(z.unknown()),
+});
+
+export const PREFERENCES_SAVED_OUTPUT = toolOutput({ saved: z.number() });
+
+export const FEEDBACK_SAVED_OUTPUT = toolOutput({
+  saved: z.boolean(),
+  total_items: z.number(),
+});
+
+export const FEEDBACK_OUTPUT = toolOutput({
+  found: z.boolean(),
+  items: entityList,
+  count: z.number(),
+});
+
+export const PLANNING_INIT_OUTPUT = toolOutput({
+  created: z.array(z.string()),
+  skipped: z.array(z.string()),
+});
+
+export const PLANNING_STATUS_OUTPUT = toolOutput({
+  goal: z.string(),
+  current_phase: z.string(),
+  phases: z.array(z.object({ name: z.string(), status: z.string() })),
+  estimated_tokens: z.number(),
+});
+
+export const PLANNING_UPDATE_OUTPUT = toolOutput({
+  operation: z.string(),
+  text: z.string().optional(),
+  note: z.string().optional(),
+});
+
+export const PLANNING_MEASURE_OUTPUT = toolOutput({
+  operation: z.string(),
+  files: z.record(z.object({ chars: z.number(), tokens: z.number() })),
+  total_chars: z.number(),
+  total_tokens: z.number(),
+});
+
+export const TAG_REGISTRY_OUTPUT = toolOutput({
+  tags: entityList,
+  count: z.number(),
+  hero_tags: z.array(z.string()),
+  lane_tags: z.record(z.array(z.string())),
+});
+
+export const LANE_REGISTRY_OUTPUT = toolOutput({
+  lanes: entityList,
+  count: z.number(),
+  required_lanes: z.array(z.string()),
+  optional_lanes: z.array(z.string()),
+});
+
+// ---------------------------------------------------------------------------
+// Diagnostics & account
+// ---------------------------------------------------------------------------
+
+export const DOCTOR_OUTPUT = toolOutput({
+  healthy: z.boolean(),
+  version: z.string(),
+  checks: z.array(
+    z
+      .object({
+        name: z.string(),
+        status: z.enum(["ok", "warn", "fail", "skip"]),
+        detail: z.string(),
+        fix: z.string().optional(),
+      })
+      .passthrough(),
+  ),
+  sources: z.record(z.string()),
+  settings: entity,
+});
+
+/** Switching names the new profile, a reset names its source, a bare call lists profiles. */
+export const SWITCH_ACCOUNT_OUTPUT = toolOutput({
+  account: z.string(),
+  profile: z.string().optional(),
+  source: z.string().optional(),
+  current: z.string().optional(),
+  profiles: z.array(z.string()).optional(),
+  config_file: z.string().optional(),
+  sources: z.record(z.string()).optional(),
+});
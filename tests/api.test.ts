@@ -0,0 +1,133 @@
+/**
+ * Tests for the HTTP request layer (fetch mocked).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../src/config.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/config.js")>();
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      sessionToken: "tok",
+      account: "acme",
+      httpMaxRetries: 2,
+      httpRetryBase: 0,
+      rateLimitRequests: 0,
+    },
+  };
+});
+
+import { dispatch, parseRetryAfter } from "../src/api.js";
+import { CliError, TransientError } from "../src/errors.js";
+
+const fetchMock = vi.fn();
+
+function respond(
+  status: number,
+  body: unknown = {},
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+describe("dispatch retries", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("does not retry an unverifiable mutation after a 502", async () => {
+    fetchMock.mockResolvedValue(respond(502));
+    await expect(dispatch("cards/update", { id: "c" })).rejects.toThrow(TransientError);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("retries after a 502 when verification shows the change did not land", async () => {
+    fetchMock.mockResolvedValueOnce(respond(502)).mockResolvedValueOnce(respond(200, { ok: 1 }));
+    const verify = vi.fn().mockResolvedValue(false);
+    const result = await dispatch("cards/update", { id: "c" }, { verify });
+    expect(result).toEqual({ ok: 1 });
+    expect(verify).toHaveBeenCalledOnce();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops when verification shows the change already landed", async () => {
+    fetchMock.mockResolvedValue(respond(504));
+    const result = await dispatch("cards/update", { id: "c" }, { verify: async () => true });
+    expect(result).toEqual({ verified: true });
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("gives up when the state cannot be re-read", async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    const verify = vi.fn().mockRejectedValue(new Error("offline"));
+    await expect(dispatch("cards/update", { id: "c" }, { verify })).rejects.toThrow(TransientError);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("retries rate-limited requests without verification", async () => {
+    fetchMock.mockResolvedValueOnce(respond(429)).mockResolvedValueOnce(respond(200, {}));
+    await expect(dispatch("cards/update", { id: "c" })).resolves.toEqual({});
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for the server's Retry-After before retrying a rate-limited request", async () => {
+    vi.useFakeTimers();
+    try {
+      fetchMock
+        .mockResolvedValueOnce(respond(429, {}, { "Retry-After": "2" }))
+        .mockResolvedValueOnce(respond(200, {}));
+      const result = dispatch("cards/update", { id: "c" });
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledOnce();
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toEqual({});
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("retries idempotent mutations after a timeout-style failure", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("socket hang up"))
+      .mockResolvedValue(respond(200));
+    await expect(dispatch("handQueue/removeCards", {}, { idempotent: true })).resolves.toEqual({});
+  });
+
+  it("does not retry client errors", async () => {
+    fetchMock.mockResolvedValue(respond(400));
+    const err = await dispatch("cards/update", {}, { idempotent: true }).catch((e) => e);
+    expect(err).toBeInstanceOf(CliError);
+    expect(err).not.toBeInstanceOf(TransientError);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  it("reads a delay in seconds", () => {
+    expect(parseRetryAfter("3", 60_000, now)).toBe(3000);
+  });
+
+  it("reads an HTTP date", () => {
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", 60_000, now)).toBe(5000);
+  });
+
+  it("caps the wait and ignores past dates and junk", () => {
+    expect(parseRetryAfter("120", 30_000, now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", 60_000, now)).toBe(0);
+    expect(parseRetryAfter("soon", 60_000, now)).toBe(0);
+    expect(parseRetryAfter(null, 60_000, now)).toBe(0);
+  });
+});
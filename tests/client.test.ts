@@ -0,0 +1,611 @@
+/**
+ * Tests for CodecksClient (API layer mocked).
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../src/api.js", () => ({
+  query: vi.fn(),
+  dispatch: vi.fn(),
+  reportRequest: vi.fn(),
+}));
+
+vi.mock("../src/config.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/config.js")>();
+  return {
+    ...actual,
+    config: { ...actual.config, sessionToken: "tok", account: "acme", userId: "user-1" },
+  };
+});
+
+import { query, dispatch, reportRequest } from "../src/api.js";
+import { CodecksClient } from "../src/client.js";
+import { CliError, DuplicateCardError, ScaffoldError } from "../src/errors.js";
+
+const mockQuery = vi.mocked(query);
+const mockDispatch = vi.mocked(dispatch);
+const mockReportRequest = vi.mocked(reportRequest);
+
+const ENTITIES: Record<string, Record<string, Record<string, unknown>>> = {
+  deck: {
+    "deck-1": { title: "Code", projectId: "proj-1" },
+    "deck-2": { title: "Art", projectId: "proj-2" },
+  },
+  project: {
+    "proj-1": { title: "Game" },
+    "proj-2": { title: "Website" },
+  },
+  milestone: { "ms-1": { title: "Alpha" } },
+  masterTag: {
+    "tag-1": { title: "bug" },
+    "tag-2": { title: "code" },
+    "tag-3": { title: "design" },
+  },
+  queueEntry: { "qe-1": { card: "card-2", user: "user-1" } },
+  user: { "user-1": { name: "Ada" }, "user-2": { name: "Grace" } },
+};
+
+const CARDS: Record<string, Record<string, unknown>> = {
+  "card-1": {
+    title: "Jump",
+    status: "started",
+    priority: "a",
+    deckId: "deck-1",
+    masterTags: ["tag-1"],
+    lastUpdatedAt: "2026-03-10T12:00:00Z",
+  },
+  "card-2": {
+    title: "Landing page",
+    status: "done",
+    priority: null,
+    deckId: "deck-2",
+    masterTags: [],
+    lastUpdatedAt: "2026-01-05T12:00:00Z",
+  },
+  "card-3": {
+    title: "Run",
+    status: "not_started",
+    priority: "c",
+    deckId: "deck-1",
+    masterTags: [],
+    lastUpdatedAt: "2026-02-01T12:00:00Z",
+  },
+};
+
+/** Answer metadata queries from ENTITIES, card queries from CARDS; record card filters. */
+function installQueryMock(cards = CARDS): Array<Record<string, unknown>> {
+  const cardFilters: Array<Record<string, unknown>> = [];
+  mockQuery.mockImplementation(async (q) => {
+    const account = (q._root as Array<Record<string, unknown[]>>)[0].account;
+    const spec = account[0] as Record<string, unknown>;
+    const key = Object.keys(spec)[0];
+    if (key.startsWith("cards(")) {
+      cardFilters.push(JSON.parse(key.slice("cards(".length, -1)));
+      return { card: cards };
+    }
+    const entity =
+      { masterTags: "masterTag", queueEntries: "queueEntry", roles: "user" }[key] ??
+      key.slice(0, -1);
+    return { [entity]: ENTITIES[entity] ?? {} };
+  });
+  return cardFilters;
+}
+
+function titles(result: Record<string, unknown>): string[] {
+  return (result.cards as Record<string, unknown>[]).map((c) => String(c.title));
+}
+
+describe("CodecksClient.listCards filters", () => {
+  let client: CodecksClient;
+  let cardFilters: Array<Record<string, unknown>>;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    cardFilters = installQueryMock();
+    client = new CodecksClient();
+  });
+
+  it("carries entity map keys as card IDs", async () => {
+    const result = await client.listCards();
+    expect((result.cards as Record<string, unknown>[]).map((c) => c.id)).toEqual([
+      "card-1",
+      "card-2",
+      "card-3",
+    ]);
+  });
+
+  it("resolves milestone name to a server-side milestoneId filter", async () => {
+    await client.listCards({ milestone: "alpha" });
+    expect(cardFilters[0].milestoneId).toBe("ms-1");
+  });
+
+  it("sends a single priority server-side and maps 'null'", async () => {
+    await client.listCards({ priority: "null" });
+    expect(cardFilters[0].priority).toBeNull();
+  });
+
+  it("filters multiple priorities client-side", async () => {
+    const result = await client.listCards({ priority: "a,null" });
+    expect(titles(result)).toEqual(["Jump", "Landing page"]);
+  });
+
+  it("filters by project through its decks", async () => {
+    const result = await client.listCards({ project: "Game" });
+    expect(titles(result)).toEqual(["Jump", "Run"]);
+  });
+
+  it("filters by tag name", async () => {
+    const result = await client.listCards({ tag: "#bug" });
+    expect(titles(result)).toEqual(["Jump"]);
+  });
+
+  it("filters by hand membership", async () => {
+    const result = await client.listCards({ handOnly: true });
+    expect(titles(result)).toEqual(["Landing page"]);
+  });
+
+  it("filters by updated date range", async () => {
+    const result = await client.listCards({
+      updatedAfter: "2026-01-10",
+      updatedBefore: "2026-03-01",
+    });
+    expect(titles(result)).toEqual(["Run"]);
+  });
+
+  it("throws for unknown project names", async () => {
+    await expect(client.listCards({ project: "Nope" })).rejects.toThrow(/Project 'Nope' not found/);
+  });
+
+  it("rejects malformed dates", async () => {
+    await expect(client.listCards({ updatedAfter: "March 1st" })).rejects.toThrow(CliError);
+  });
+});
+
+describe("CodecksClient.createCard", () => {
+  let client: CodecksClient;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockDispatch.mockReset();
+    installQueryMock();
+    mockDispatch.mockResolvedValue({ payload: { id: "new-card" } });
+    client = new CodecksClient();
+  });
+
+  it("creates the card in the named deck through dispatch", async () => {
+    const result = await client.createCard({ title: "Dash", deck: "Code", doc: true });
+    expect(result.card_id).toBe("new-card");
+    expect(mockDispatch).toHaveBeenCalledWith(
+      "cards/create",
+      expect.objectContaining({
+        deckId: "deck-1",
+        projectId: "proj-1",
+        userId: "user-1",
+        isDoc: true,
+        content: "# Dash",
+      }),
+      expect.anything(),
+    );
+  });
+
+  it("acts with the credentials the client was created with", async () => {
+    const credentials = {
+      sessionToken: "tok-2",
+      account: "acme",
+      userId: "user-2",
+      reportToken: "",
+    };
+    client = new CodecksClient(credentials);
+    await client.createCard({ title: "Dash", deck: "Code" });
+
+    expect(mockQuery.mock.calls.every(([, creds]) => creds === credentials)).toBe(true);
+    expect(mockDispatch.mock.calls[0][1]).toMatchObject({ userId: "user-2" });
+    expect(mockDispatch.mock.calls[0][2]).toMatchObject({ credentials });
+  });
+
+  it("attaches sub-cards to their parent", async () => {
+    await client.createCard({ title: "Dash - Code", deck: "Code", parent: "card-1" });
+    expect(mockDispatch.mock.calls[0][1]).toMatchObject({ parentCardId: "card-1" });
+  });
+
+  it("rejects a deck outside the named project", async () => {
+    await expect(
+      client.createCard({ title: "Dash", deck: "Art", project: "Game" }),
+    ).rejects.toThrow(/does not belong/);
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses likely duplicates in the target deck", async () => {
+    const err = await client.createCard({ title: "jump!", deck: "Code" }).catch((e) => e);
+    expect(err).toBeInstanceOf(DuplicateCardError);
+    expect((err as DuplicateCardError).candidates.map((c) => c.card_id)).toEqual(["card-1"]);
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  it("creates duplicates when allowed", async () => {
+    await client.createCard({ title: "Jump", deck: "Code", allowDuplicate: true });
+    expect(mockDispatch).toHaveBeenCalledOnce();
+  });
+
+  it("requires a placement", async () => {
+    await expect(client.createCard({ title: "Dash" })).rejects.toThrow(/deck or project/);
+  });
+
+  it("creates through the report token without a session, skipping the duplicate check", async () => {
+    mockReportRequest.mockResolvedValue({ cardId: "reported" });
+    client = new CodecksClient({ sessionToken: "", account: "acme", userId: "", reportToken: "r" });
+
+    const result = await client.createCard({ title: "Jump", deck: "Code" });
+    expect(result).toMatchObject({ ok: true, card_id: "reported" });
+    expect(result.warnings).toContainEqual(expect.stringMatching(/duplicate-title check/));
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+});
+
+describe("CodecksClient.updateCards", () => {
+  let client: CodecksClient;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockDispatch.mockReset();
+    installQueryMock();
+    mockDispatch.mockResolvedValue({});
+    client = new CodecksClient();
+  });
+
+  it("resolves deck, milestone, owner and tag names to IDs", async () => {
+    await client.updateCards({
+      cardIds: ["card-1"],
+      deck: "Art",
+      milestone: "Alpha",
+      owner: "grace",
+      tags: "bug",
+    });
+    expect(mockDispatch.mock.calls[0].slice(0, 2)).toEqual([
+      "cards/update",
+      {
+        id: "card-1",
+        deckId: "deck-2",
+        milestoneId: "ms-1",
+        assigneeId: "user-2",
+        masterTags: ["tag-1"],
+      },
+    ]);
+  });
+
+  it("clears fields with 'none'", async () => {
+    await client.updateCards({
+      cardIds: ["card-1"],
+      milestone: "none",
+      owner: "none",
+      hero: "none",
+      tags: "none",
+      doc: "false",
+    });
+    expect(mockDispatch.mock.calls[0].slice(0, 2)).toEqual([
+      "cards/update",
+      {
+        id: "card-1",
+        milestoneId: null,
+        assigneeId: null,
+        parentCardId: null,
+        masterTags: [],
+        isDoc: false,
+      },
+    ]);
+  });
+
+  it("rejects unknown names before dispatching", async () => {
+    await expect(
+      client.updateCards({ cardIds: ["card-1", "card-3"], owner: "Linus" }),
+    ).rejects.toThrow(/User 'Linus' not found/);
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  it("reports progress and stops between cards when aborted", async () => {
+    const cardFilters = installQueryMock();
+    const controller = new AbortController();
+    const progress: Array<[number, number, string]> = [];
+    mockDispatch.mockImplementation(async () => {
+      controller.abort();
+      return {};
+    });
+
+    const result = await client.updateCards(
+      { cardIds: ["card-1", "card-3"], status: "done" },
+      { signal: controller.signal, onProgress: async (...args) => void progress.push(args) },
+    );
+
+    expect(mockDispatch).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      ok: true,
+      cancelled: true,
+      updated: 1,
+      not_attempted: ["card-3"],
+    });
+    expect(progress).toEqual([
+      [0, 2, "Updating 'Jump'"],
+      [1, 2, "Cancelled"],
+    ]);
+    // One title lookup for the whole batch
+    expect(cardFilters).toEqual([{ cardId: ["card-1", "card-3"] }]);
+  });
+
+  it("falls back to the card ID in progress when its title can't be found", async () => {
+    const progress: string[] = [];
+    await client.updateCards(
+      { cardIds: ["card-9"], status: "done" },
+      { onProgress: async (_done, _total, message) => void progress.push(message) },
+    );
+    expect(progress[0]).toBe("Updating 'card-9'");
+  });
+});
+
+describe("CodecksClient.splitFeatures", () => {
+  let client: CodecksClient;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockDispatch.mockReset();
+    installQueryMock();
+    client = new CodecksClient();
+  });
+
+  it("returns the features not started when aborted", async () => {
+    const controller = new AbortController();
+    const progress: string[] = [];
+    let created = 0;
+    mockDispatch.mockImplementation(async () => {
+      controller.abort();
+      return { payload: { id: `new-${++created}` } };
+    });
+
+    const result = await client.splitFeatures(
+      { deck: "Code", codeDeck: "Code", designDeck: "Art", skipArt: true, skipAudio: true },
+      {
+        signal: controller.signal,
+        onProgress: async (done, total, message) =>
+          void progress.push(`${done}/${total} ${message}`),
+      },
+    );
+
+    expect(result).toMatchObject({
+      features_processed: 1,
+      cancelled: true,
+      features_not_started: [
+        { id: "card-2", title: "Landing page" },
+        { id: "card-3", title: "Run" },
+      ],
+    });
+    expect(progress).toEqual(["0/3 Splitting 'Jump'", "1/3 Cancelled"]);
+  });
+
+  it("splits only the confirmed feature cards", async () => {
+    let created = 0;
+    mockDispatch.mockImplementation(async () => ({ payload: { id: `new-${++created}` } }));
+
+    const result = await client.splitFeatures({
+      deck: "Code",
+      codeDeck: "Code",
+      designDeck: "Art",
+      skipArt: true,
+      skipAudio: true,
+      featureIds: ["card-3"],
+    });
+
+    expect(result.features_processed).toBe(1);
+    expect((result.details as Record<string, unknown>[])[0]).toMatchObject({ title: "Run" });
+  });
+
+  it("skips features that were already split into a hero of the same title", async () => {
+    installQueryMock({
+      ...CARDS,
+      "card-4": { title: "Run", deckId: "deck-1", masterTags: [], childCardInfo: { count: 2 } },
+    });
+    let created = 0;
+    mockDispatch.mockImplementation(async () => ({ payload: { id: `new-${++created}` } }));
+
+    const result = await client.splitFeatures({
+      deck: "Code",
+      codeDeck: "Code",
+      designDeck: "Art",
+      skipArt: true,
+      skipAudio: true,
+    });
+
+    expect(result.features_processed).toBe(2);
+    const details = result.details as Record<string, unknown>[];
+    expect(details[2]).toMatchObject({ ok: false, title: "Run" });
+    expect(details[2].error).toMatch(/Possible duplicate.*card-4/);
+  });
+});
+
+describe("CodecksClient.scaffoldFeature", () => {
+  let client: CodecksClient;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockDispatch.mockReset();
+    installQueryMock();
+    client = new CodecksClient();
+  });
+
+  it("creates lane sub-cards in their decks with checklist, tags and inherited fields", async () => {
+    let created = 0;
+    mockDispatch.mockImplementation(async () => ({ payload: { id: `new-${++created}` } }));
+
+    const result = await client.scaffoldFeature({
+      title: "Grapple",
+      heroDeck: "Code",
+      codeDeck: "Code",
+      designDeck: "Art",
+      skipArt: true,
+      skipAudio: true,
+      owner: "Ada",
+      priority: "b",
+      effort: 3,
+      laneOverrides: { design: { owner: "Grace" } },
+    });
+
+    expect(result.subcards).toEqual([
+      { lane: "code", card_id: "new-2", deck: "Code" },
+      { lane: "design", card_id: "new-3", deck: "Art" },
+    ]);
+    const [, design] = mockDispatch.mock.calls[2];
+    expect(design).toMatchObject({
+      content: "# Grapple - Design\n\n- [] Wireframes\n- [] Visual design\n- [] Design review",
+      deckId: "deck-2",
+      parentCardId: "new-1",
+      assigneeId: "user-2",
+      priority: "b",
+      effort: 3,
+      masterTags: ["tag-3"],
+    });
+    expect(mockDispatch.mock.calls[1][1]).toMatchObject({ assigneeId: "user-1" });
+  });
+
+  it("creates lane sub-cards without tags the account doesn't have", async () => {
+    const tags = ENTITIES.masterTag;
+    ENTITIES.masterTag = { "tag-1": { title: "bug" } };
+    let created = 0;
+    mockDispatch.mockImplementation(async () => ({ payload: { id: `new-${++created}` } }));
+
+    try {
+      const result = await client.scaffoldFeature({
+        title: "Grapple",
+        heroDeck: "Code",
+        codeDeck: "Code",
+        designDeck: "Art",
+      });
+
+      expect(result.subcards).toHaveLength(2);
+      expect(result.warnings).toEqual([
+        "Tag 'code' not found: Code sub-card created without it.",
+        "Tag 'design' not found: Design sub-card created without it.",
+      ]);
+      expect(mockDispatch.mock.calls[1][1]).toMatchObject({ masterTags: [] });
+    } finally {
+      ENTITIES.masterTag = tags;
+    }
+  });
+
+  it("rolls back created cards when a lane fails", async () => {
+    let created = 0;
+    mockDispatch.mockImplementation(async (path) => {
+      if (path !== "cards/create") return {};
+      created++;
+      if (created === 3) throw new CliError("[ERROR] HTTP 500: Internal Server Error");
+      return { payload: { id: `new-${created}` } };
+    });
+
+    const err = await client
+      .scaffoldFeature({ title: "Grapple", heroDeck: "Code", codeDeck: "Code", designDeck: "Art" })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(ScaffoldError);
+    expect((err as ScaffoldError).rolledBack).toEqual(["new-2", "new-1"]);
+    const deleted = mockDispatch.mock.calls
+      .filter(([path]) => path === "cards/bulkUpdate")
+      .map(([, data]) => (data as Record<string, string[]>).ids[0]);
+    expect(deleted).toEqual(["new-2", "new-1"]);
+  });
+});
+
+describe("CodecksClient mutation verification", () => {
+  let client: CodecksClient;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockDispatch.mockReset();
+    installQueryMock();
+    mockDispatch.mockResolvedValue({});
+    client = new CodecksClient();
+  });
+
+  it("verifies updates against the re-read card state", async () => {
+    await client.updateCards({ cardIds: ["card-1"], status: "started", priority: "a" });
+    const { verify } = mockDispatch.mock.calls[0][2] as { verify: () => Promise<boolean> };
+    await expect(verify()).resolves.toBe(true);
+
+    mockDispatch.mockClear();
+    await client.updateCards({ cardIds: ["card-1"], status: "done" });
+    const { verify: verifyDone } = mockDispatch.mock.calls[0][2] as {
+      verify: () => Promise<boolean>;
+    };
+    await expect(verifyDone()).resolves.toBe(false);
+  });
+});
+
+describe("CodecksClient metadata cache", () => {
+  let client: CodecksClient;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockDispatch.mockReset();
+    installQueryMock();
+    mockDispatch.mockResolvedValue({ payload: { id: "new-card" } });
+    client = new CodecksClient();
+  });
+
+  function metadataQueries(): number {
+    return mockQuery.mock.calls.filter(([q]) => !JSON.stringify(q).includes("cards(")).length;
+  }
+
+  it("serves repeated lookups from cache", async () => {
+    await client.listDecks();
+    await client.listCards({ deck: "Code" });
+    await client.resolveDeck("Art");
+    expect(metadataQueries()).toBe(1);
+  });
+
+  it("re-fetches on refresh", async () => {
+    await client.listDecks();
+    await client.listDecks({ refresh: true });
+    expect(metadataQueries()).toBe(2);
+  });
+
+  it("invalidates tags after creating a card", async () => {
+    await client.listTags();
+    await client.createCard({ title: "Dash #newtag", deck: "Code", allowDuplicate: true });
+    await client.listTags();
+    const tagQueries = mockQuery.mock.calls.filter(([q]) =>
+      JSON.stringify(q).includes("masterTags"),
+    );
+    expect(tagQueries).toHaveLength(2);
+  });
+});
+
+describe("CodecksClient user ID discovery", () => {
+  const NO_USER = { sessionToken: "tok", account: "acme", userId: "", reportToken: "" };
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockDispatch.mockReset();
+    mockQuery.mockResolvedValue({ user: { "user-7": { name: "Ada" } } });
+    mockDispatch.mockResolvedValue({});
+  });
+
+  it("looks up the logged-in user once and reuses it", async () => {
+    const client = new CodecksClient(NO_USER);
+    await client.replyComment("thread-1", "On it");
+    await client.replyComment("thread-1", "Done");
+
+    expect(mockQuery).toHaveBeenCalledOnce();
+    expect(JSON.stringify(mockQuery.mock.calls[0][0])).toContain("loggedInUser");
+    expect(mockDispatch.mock.calls[1][1]).toMatchObject({ authorId: "user-7" });
+  });
+
+  it("prefers the configured user ID", async () => {
+    const client = new CodecksClient();
+    expect(await client.currentUserId()).toBe("user-1");
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("retries discovery after a failure", async () => {
+    const client = new CodecksClient(NO_USER);
+    mockQuery.mockRejectedValueOnce(new CliError("[ERROR] Connection failed"));
+    await expect(client.currentUserId()).rejects.toThrow("Connection failed");
+    expect(await client.currentUserId()).toBe("user-7");
+  });
+});
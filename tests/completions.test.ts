@@ -0,0 +1,63 @@
+/**
+ * Tests for deck/project/milestone/tag/user name completion.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { CodecksClient } from "../src/client.js";
+import { rankMatches, suggestMilestoneIds, suggestNames } from "../src/completions.js";
+
+const client = {
+  listDecks: vi.fn(async () => ({
+    decks: [{ title: "Code" }, { title: "Art" }, { title: "Backlog Code" }, { title: "Design" }],
+  })),
+  listMilestones: vi.fn(async () => ({
+    milestones: [
+      { id: "m-alpha", title: "Alpha" },
+      { id: "m-beta", title: "Beta" },
+    ],
+  })),
+  listTags: vi.fn(async () => ({
+    tags: [{ title: "bug" }, { title: "backend" }, { title: "ui" }],
+  })),
+  listUsers: vi.fn(async () => ({
+    users: [
+      { id: "u1", name: "Ada" },
+      { id: "u2", name: "Grace" },
+    ],
+  })),
+  listProjects: vi.fn(async () => {
+    throw new Error("[ERROR] No token.");
+  }),
+} as unknown as CodecksClient;
+
+describe("rankMatches", () => {
+  it("puts prefix matches before substring matches", () => {
+    expect(rankMatches(["Backlog Code", "Code", "Art"], "co")).toEqual(["Code", "Backlog Code"]);
+  });
+
+  it("returns everything, sorted, for an empty value", () => {
+    expect(rankMatches(["b", "a", "a"], "")).toEqual(["a", "b"]);
+  });
+});
+
+describe("suggestNames", () => {
+  it("suggests deck titles and user names", async () => {
+    expect(await suggestNames(client, "deck", "CO")).toEqual(["Code", "Backlog Code"]);
+    expect(await suggestNames(client, "user", "gr")).toEqual(["Grace"]);
+  });
+
+  it("completes the last entry of a comma-separated tag list", async () => {
+    expect(await suggestNames(client, "tag", "bug, #b")).toEqual(["bug, backend"]);
+  });
+
+  it("returns nothing when Codecks is unavailable", async () => {
+    expect(await suggestNames(client, "project", "x")).toEqual([]);
+  });
+});
+
+describe("suggestMilestoneIds", () => {
+  it("matches milestone IDs by ID prefix or title", async () => {
+    expect(await suggestMilestoneIds(client, "bet")).toEqual(["m-beta"]);
+    expect(await suggestMilestoneIds(client, "m-")).toEqual(["m-alpha", "m-beta"]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for config file profiles and setting sources.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const dir = mkdtempSync(join(tmpdir(), "codecks-mcp-config-"));
+const file = join(dir, "config.json");
+
+async function loadConfig(env: Record<string, string | undefined>) {
+  vi.resetModules();
+  for (const [key, value] of Object.entries(env)) vi.stubEnv(key, value);
+  return import("../src/config.js");
+}
+
+describe("config profiles", () => {
+  beforeAll(() => {
+    writeFileSync(
+      file,
+      JSON.stringify({
+        default: "studio",
+        profiles: {
+          studio: { token: "studio-tok", account: "studio", http_max_retries: 5 },
+          client: { token: "client-tok", account: "client-co", user_id: "u-9" },
+        },
+      }),
+    );
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads the default profile and reports where each value came from", async () => {
+    const mod = await loadConfig({
+      CODECKS_CONFIG_FILE: file,
+      CODECKS_PROFILE: undefined,
+      CODECKS_TOKEN: undefined,
+      CODECKS_ACCOUNT: "from-env",
+    });
+    expect(mod.activeProfile).toBe("studio");
+    expect(mod.config.sessionToken).toBe("studio-tok");
+    expect(mod.config.httpMaxRetries).toBe(5);
+    // Env still wins over the file's default profile
+    expect(mod.config.account).toBe("from-env");
+    expect(mod.credentialSources()).toMatchObject({
+      CODECKS_TOKEN: "profile:studio",
+      CODECKS_ACCOUNT: "env",
+      CODECKS_USER_ID: "unset",
+    });
+  });
+
+  it("selects a profile by name and exposes others for switching", async () => {
+    const mod = await loadConfig({
+      CODECKS_CONFIG_FILE: file,
+      CODECKS_PROFILE: "client",
+      CODECKS_TOKEN: undefined,
+      CODECKS_ACCOUNT: undefined,
+    });
+    expect(mod.config.account).toBe("client-co");
+    expect(mod.listProfiles()).toEqual(["studio", "client"]);
+    expect(mod.profileCredentials("studio")).toEqual({
+      sessionToken: "studio-tok",
+      account: "studio",
+      userId: "",
+      reportToken: "",
+    });
+    expect(mod.profileCredentials("missing")).toBeNull();
+  });
+
+  it("lets a named profile win over ambient env, with a warning", async () => {
+    const warn = vi.spyOn(console, "error").mockImplementation(() => {});
+    const mod = await loadConfig({
+      CODECKS_CONFIG_FILE: file,
+      CODECKS_PROFILE: "client",
+      CODECKS_TOKEN: "ambient-tok",
+      CODECKS_ACCOUNT: "ambient",
+    });
+    expect(mod.config.sessionToken).toBe("client-tok");
+    expect(mod.config.account).toBe("client-co");
+    expect(mod.credentialSources()).toMatchObject({ CODECKS_TOKEN: "profile:client" });
+    expect(warn).toHaveBeenCalledWith(
+      "codecks-mcp: profile 'client' overrides CODECKS_TOKEN from the environment",
+    );
+    warn.mockRestore();
+  });
+
+  it("reports an unknown profile as a startup error instead of throwing on import", async () => {
+    const mod = await loadConfig({ CODECKS_CONFIG_FILE: file, CODECKS_PROFILE: "nope" });
+    expect(mod.configError).toMatch(/Unknown profile 'nope'.*Available: studio, client/);
+    expect(mod.activeProfile).toBeNull();
+  });
+
+  it("ignores a malformed config file with a warning", async () => {
+    const broken = join(dir, "broken.json");
+    writeFileSync(broken, "{ not json");
+    const warn = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const mod = await loadConfig({
+      CODECKS_CONFIG_FILE: broken,
+      CODECKS_PROFILE: undefined,
+      CODECKS_TOKEN: "env-tok",
+    });
+    expect(mod.configError).toBeNull();
+    expect(mod.config.sessionToken).toBe("env-tok");
+    expect(mod.listProfiles()).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Invalid config file"));
+
+    // Asking for a profile from that file explains why it's missing
+    const named = await loadConfig({ CODECKS_CONFIG_FILE: broken, CODECKS_PROFILE: "studio" });
+    expect(named.configError).toMatch(/Unknown profile 'studio'.*was ignored: Invalid config/);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for destructive-action confirmation (elicitation and confirm_token fallback).
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ConfirmationStore, confirmAction, confirmationKey } from "../src/tools/confirm.js";
+
+const extra = { requestId: 1, signal: new AbortController().signal } as never;
+
+function fakeServer(elicitation: unknown, elicitInput = vi.fn()): McpServer {
+  return {
+    server: { getClientCapabilities: () => ({ elicitation }), elicitInput },
+  } as unknown as McpServer;
+}
+
+const REQUEST = {
+  key: confirmationKey("delete_card", { card_id: "c1" }),
+  message: "Permanently delete card 'Jump'? This cannot be undone.",
+  preview: { card_id: "c1" },
+};
+
+describe("ConfirmationStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts a token once, for the key it was issued for", () => {
+    const store = new ConfirmationStore();
+    const token = store.issue("a");
+    expect(store.consume("b", token)).toBe(false);
+
+    const again = store.issue("a");
+    expect(store.consume("a", again)).toBe(true);
+    expect(store.consume("a", again)).toBe(false);
+  });
+
+  it("rejects expired tokens", () => {
+    vi.useFakeTimers();
+    const store = new ConfirmationStore(1000);
+    const token = store.issue("a");
+    vi.advanceTimersByTime(1001);
+    expect(store.consume("a", token)).toBe(false);
+  });
+
+  it("keys ignore the token and argument order", () => {
+    expect(confirmationKey("t", { b: 1, a: 2, confirm_token: "x" })).toBe(
+      confirmationKey("t", { a: 2, b: 1 }),
+    );
+  });
+});
+
+describe("confirmAction", () => {
+  it("proceeds when the user confirms via elicitation", async () => {
+    const elicitInput = vi.fn().mockResolvedValue({ action: "accept", content: { confirm: true } });
+    const server = fakeServer({ form: {} }, elicitInput);
+    expect(await confirmAction(server, new ConfirmationStore(), extra, REQUEST)).toBeNull();
+    expect(elicitInput.mock.calls[0][0].message).toContain("'Jump'");
+  });
+
+  it("refuses when the user declines", async () => {
+    const elicitInput = vi.fn().mockResolvedValue({ action: "decline" });
+    const result = await confirmAction(
+      fakeServer({ form: {} }, elicitInput),
+      new ConfirmationStore(),
+      extra,
+      REQUEST,
+    );
+    expect(result).toMatchObject({ ok: false, type: "declined", preview: { card_id: "c1" } });
+  });
+
+  it("falls back to a confirm_token without elicitation", async () => {
+    const server = fakeServer(undefined);
+    const store = new ConfirmationStore();
+
+    const first = await confirmAction(server, store, extra, REQUEST);
+    expect(first).toMatchObject({ ok: false, type: "confirmation_required" });
+    const token = first!.confirm_token as string;
+
+    expect(await confirmAction(server, store, extra, { ...REQUEST, token })).toBeNull();
+    const reused = await confirmAction(server, store, extra, { ...REQUEST, token });
+    expect(reused).toMatchObject({ ok: false, type: "error" });
+  });
+
+  it("refuses without a token when elicitation fails", async () => {
+    const elicitInput = vi.fn().mockRejectedValue(new Error("timeout"));
+    const result = await confirmAction(
+      fakeServer({ form: {} }, elicitInput),
+      new ConfirmationStore(),
+      extra,
+      REQUEST,
+    );
+    expect(result).toMatchObject({ ok: false, type: "error", preview: { card_id: "c1" } });
+    expect(result!.error).toContain("timeout");
+    expect(result).not.toHaveProperty("confirm_token");
+  });
+});
@@ -3,7 +3,12 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { contractError, ensureContractDict, finalizeToolResult } from "../src/contract.js";
+import {
+  contractError,
+  ensureContractDict,
+  finalizeToolResult,
+  toolResponse,
+} from "../src/contract.js";
 
 describe("contractError", () => {
   it("creates error envelope with defaults", () => {
@@ -60,3 +65,25 @@ describe("finalizeToolResult", () => {
     expect(result.error).toBe("bad thing");
   });
 });
+
+describe("toolResponse", () => {
+  it("mirrors the JSON text as structured content", () => {
+    const response = toolResponse({ cards: [] });
+    expect(JSON.parse(response.content[0].text)).toEqual(response.structuredContent);
+    expect(response.structuredContent?.ok).toBe(true);
+    expect(response.isError).toBeUndefined();
+  });
+
+  it("flags contract errors without structured content", () => {
+    const response = toolResponse(contractError("bad thing", "setup"));
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toBeUndefined();
+    expect(JSON.parse(response.content[0].text)).toMatchObject({ ok: false, type: "setup" });
+  });
+
+  it("wraps list results as an object", () => {
+    const response = toolResponse([1, 2, 3]);
+    expect(response.content[0].text).toBe("[1,2,3]");
+    expect(response.structuredContent).toEqual({ result: [1, 2, 3] });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for configuration diagnostics.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { runDiagnostics } from "../src/doctor.js";
+import { SetupError } from "../src/errors.js";
+import type { CodecksClient } from "../src/client.js";
+
+function fakeClient(
+  credentials: { sessionToken: string; account: string; userId: string; reportToken: string },
+  overrides: Partial<
+    Record<"getAccount" | "listUsers" | "currentUserId", () => Promise<unknown>>
+  > = {},
+): CodecksClient {
+  return {
+    credentials,
+    credentialSource: "config",
+    currentUserId: vi.fn(async () => credentials.userId || "user-1"),
+    getAccount: vi.fn(async () => ({ account: { "acc-1": { name: "Acme Games" } } })),
+    listUsers: vi.fn(async () => ({ users: [{ id: "user-1", name: "Ada" }] })),
+    ...overrides,
+  } as unknown as CodecksClient;
+}
+
+const GOOD = { sessionToken: "tok", account: "acme", userId: "user-1", reportToken: "" };
+
+function check(report: Awaited<ReturnType<typeof runDiagnostics>>, name: string) {
+  return report.checks.find((c) => c.name === name);
+}
+
+describe("runDiagnostics", () => {
+  it("reports healthy when every credential checks out", async () => {
+    const report = await runDiagnostics(fakeClient(GOOD));
+    expect(report.healthy).toBe(true);
+    expect(check(report, "session_token")).toMatchObject({ status: "ok" });
+    expect(check(report, "session_token")?.detail).toContain("Acme Games");
+    expect(check(report, "user_id")).toMatchObject({ status: "ok" });
+    expect(report.settings).toHaveProperty("response_mode");
+  });
+
+  it("explains an expired token and skips the user check", async () => {
+    const client = fakeClient(GOOD, {
+      getAccount: async () => {
+        throw new SetupError("[TOKEN_EXPIRED] expired");
+      },
+    });
+    const report = await runDiagnostics(client);
+    expect(report.healthy).toBe(false);
+    expect(check(report, "session_token")).toMatchObject({ status: "fail" });
+    expect(check(report, "session_token")?.fix).toContain("CODECKS_TOKEN");
+    expect(check(report, "user_id")).toMatchObject({ status: "skip" });
+  });
+
+  it("lists valid users when the user ID is unknown", async () => {
+    const report = await runDiagnostics(fakeClient({ ...GOOD, userId: "user-9" }));
+    expect(check(report, "user_id")).toMatchObject({ status: "fail" });
+    expect(check(report, "user_id")?.fix).toContain("Ada (user-1)");
+  });
+
+  it("reports a discovered user ID when none is configured", async () => {
+    const report = await runDiagnostics(fakeClient({ ...GOOD, userId: "" }));
+    expect(check(report, "user_id")).toMatchObject({ status: "ok" });
+    expect(check(report, "user_id")?.detail).toContain("Discovered user 'Ada' (user-1)");
+  });
+
+  it("rejects an account value that is not a bare subdomain", async () => {
+    const report = await runDiagnostics(fakeClient({ ...GOOD, account: "acme.codecks.io" }));
+    expect(check(report, "account")).toMatchObject({ status: "fail" });
+  });
+
+  it("never reports an unverified report token as ok", async () => {
+    const withSession = await runDiagnostics(fakeClient({ ...GOOD, reportToken: "rt" }));
+    expect(check(withSession, "report_token")).toMatchObject({ status: "skip" });
+    expect(check(withSession, "report_token")?.detail).toContain("not verified");
+
+    const reportOnly = await runDiagnostics(
+      fakeClient({ sessionToken: "", account: "acme", userId: "", reportToken: "rt" }),
+    );
+    expect(check(reportOnly, "report_token")).toMatchObject({ status: "warn" });
+    expect(check(reportOnly, "report_token")?.detail).toContain("not verified");
+  });
+});
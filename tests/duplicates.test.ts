@@ -0,0 +1,67 @@
+/**
+ * Tests for duplicate-title detection.
+ */
+
+import { describe, it, expect } from "vitest";
+import { findDuplicates, normalizeTitle, titleSimilarity } from "../src/duplicates.js";
+
+describe("normalizeTitle", () => {
+  it("lowercases and strips punctuation and heading markers", () => {
+    expect(normalizeTitle("# Player  Jump: Double!")).toBe("player jump double");
+  });
+});
+
+describe("titleSimilarity", () => {
+  it("scores normalized matches as identical", () => {
+    expect(titleSimilarity("Double Jump", "double-jump")).toBe(1);
+  });
+
+  it("ignores word order", () => {
+    expect(titleSimilarity("Jump Double", "Double Jump")).toBe(1);
+  });
+
+  it("scores small typos highly", () => {
+    expect(titleSimilarity("Inventory system", "Inventry system")).toBeGreaterThan(0.85);
+  });
+
+  it("scores unrelated titles low", () => {
+    expect(titleSimilarity("Inventory system", "Main menu music")).toBeLessThan(0.5);
+  });
+
+  it("treats titles with different numbers as distinct", () => {
+    expect(titleSimilarity("Boss fight 2", "Boss fight 1")).toBe(0);
+    expect(titleSimilarity("Level 11", "Level 10")).toBe(0);
+    expect(titleSimilarity("Level 10", "Level")).toBe(0);
+  });
+
+  it("still matches numbered titles that differ only in wording", () => {
+    expect(titleSimilarity("Boss fight 2", "Boss-fight #2")).toBe(1);
+    expect(titleSimilarity("Boss fight 2", "Bos fight 2")).toBeGreaterThan(0.85);
+  });
+
+  it("returns 0 for empty titles", () => {
+    expect(titleSimilarity("", "Anything")).toBe(0);
+  });
+});
+
+describe("findDuplicates", () => {
+  const cards = [
+    { id: "a", title: "Double Jump" },
+    { id: "b", title: "Double jumps" },
+    { id: "c", title: "Wall run" },
+  ];
+
+  it("returns candidates sorted by similarity", () => {
+    const result = findDuplicates("double jump", cards);
+    expect(result.map((c) => c.card_id)).toEqual(["a", "b"]);
+    expect(result[0].similarity).toBe(1);
+  });
+
+  it("does not flag the next numbered item", () => {
+    expect(findDuplicates("Level 11", [{ id: "l", title: "Level 10" }])).toEqual([]);
+  });
+
+  it("returns nothing below the threshold", () => {
+    expect(findDuplicates("Grappling hook", cards)).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for HTTP transport access control.
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkHttpRequest, sessionCredentials, type HttpAuthSettings } from "../src/httpauth.js";
+
+const LOCAL: HttpAuthSettings = {
+  token: "",
+  allowedOrigins: [],
+  allowedHosts: [],
+  bindHost: "127.0.0.1",
+};
+
+describe("checkHttpRequest", () => {
+  it("accepts loopback requests without auth configured", () => {
+    expect(checkHttpRequest({ host: "localhost:3000" }, LOCAL)).toBeNull();
+    expect(checkHttpRequest({ host: "[::1]:3000" }, LOCAL)).toBeNull();
+  });
+
+  it("blocks DNS-rebound Host headers when bound to loopback", () => {
+    expect(checkHttpRequest({ host: "evil.example:3000" }, LOCAL)).toMatchObject({ status: 403 });
+  });
+
+  it("enforces configured allowed hosts", () => {
+    const settings = { ...LOCAL, bindHost: "0.0.0.0", allowedHosts: ["devbox.lan"] };
+    expect(checkHttpRequest({ host: "devbox.lan:3000" }, settings)).toBeNull();
+    expect(checkHttpRequest({ host: "other.lan:3000" }, settings)).toMatchObject({ status: 403 });
+  });
+
+  it("rejects foreign and opaque origins", () => {
+    const headers = { host: "localhost:3000" };
+    expect(checkHttpRequest({ ...headers, origin: "http://localhost:5173" }, LOCAL)).toBeNull();
+    expect(checkHttpRequest({ ...headers, origin: "https://evil.example" }, LOCAL)).toMatchObject({
+      status: 403,
+    });
+    expect(checkHttpRequest({ ...headers, origin: "null" }, LOCAL)).toMatchObject({
+      status: 403,
+    });
+  });
+
+  it("requires the bearer token or shared secret when configured", () => {
+    const settings = { ...LOCAL, token: "s3cret" };
+    const host = "localhost:3000";
+    expect(checkHttpRequest({ host }, settings)).toMatchObject({ status: 401 });
+    expect(checkHttpRequest({ host, authorization: "Bearer nope" }, settings)).toMatchObject({
+      status: 401,
+    });
+    expect(checkHttpRequest({ host, authorization: "Bearer s3cret" }, settings)).toBeNull();
+    expect(checkHttpRequest({ host, "x-mcp-secret": "s3cret" }, settings)).toBeNull();
+  });
+});
+
+describe("sessionCredentials", () => {
+  const env = {
+    sessionToken: "env-tok",
+    account: "acme",
+    userId: "env-user",
+    reportToken: "env-report",
+  };
+
+  it("returns null when the client sent no Codecks token", () => {
+    expect(sessionCredentials({ "x-codecks-user-id": "u-2" }, env)).toBeNull();
+  });
+
+  it("never inherits the server's user ID or report token", () => {
+    expect(sessionCredentials({ "x-codecks-token": "t-2" }, env)).toEqual({
+      sessionToken: "t-2",
+      account: "acme",
+      userId: "",
+      reportToken: "",
+    });
+    expect(
+      sessionCredentials(
+        { "x-codecks-token": "t-2", "x-codecks-account": "other", "x-codecks-user-id": "u-2" },
+        env,
+      ),
+    ).toEqual({ sessionToken: "t-2", account: "other", userId: "u-2", reportToken: "" });
+  });
+});
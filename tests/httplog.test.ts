@@ -0,0 +1,61 @@
+/**
+ * Tests for structured HTTP logging and redaction.
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatHttpLogEntry, redactHeaders, redactUrl } from "../src/httplog.js";
+
+describe("redactUrl", () => {
+  it("redacts the report token in the query string", () => {
+    expect(redactUrl("https://api.codecks.io/user-report/v1/create-report?token=abc123")).toBe(
+      "/user-report/v1/create-report?token=[REDACTED]",
+    );
+  });
+
+  it("keeps non-secret query parameters", () => {
+    expect(redactUrl("https://api.codecks.io/x?page=2&token=s")).toBe("/x?page=2&token=[REDACTED]");
+  });
+
+  it("returns the path for URLs without a query", () => {
+    expect(redactUrl("https://api.codecks.io/dispatch/cards/update")).toBe(
+      "/dispatch/cards/update",
+    );
+  });
+});
+
+describe("redactHeaders", () => {
+  it("redacts tokens and cookies case-insensitively", () => {
+    expect(
+      redactHeaders({
+        "X-Auth-Token": "secret",
+        Cookie: "at=secret",
+        "X-Account": "acme",
+      }),
+    ).toEqual({ "X-Auth-Token": "[REDACTED]", Cookie: "[REDACTED]", "X-Account": "acme" });
+  });
+});
+
+describe("formatHttpLogEntry", () => {
+  it("emits one JSON line without secrets", () => {
+    const line = formatHttpLogEntry({
+      method: "POST",
+      url: "https://api.codecks.io/?token=t0p",
+      requestId: "req-1",
+      headers: { "X-Auth-Token": "t0p" },
+      status: 200,
+      latencyMs: 12,
+      retries: 1,
+      responseBytes: 42,
+    });
+    expect(line).not.toContain("t0p");
+    expect(JSON.parse(line)).toMatchObject({
+      method: "POST",
+      path: "/?token=[REDACTED]",
+      request_id: "req-1",
+      status: 200,
+      latency_ms: 12,
+      retries: 1,
+      response_bytes: 42,
+    });
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for the lanes a feature scaffold creates.
+ */
+
+import { describe, it, expect } from "vitest";
+import { scaffoldLanes } from "../src/lanes.js";
+
+function laneNames(decks: Parameters<typeof scaffoldLanes>[0]): string[] {
+  return scaffoldLanes(decks).map(({ lane, deck }) => `${lane.name}:${deck}`);
+}
+
+describe("scaffoldLanes", () => {
+  it("includes optional lanes that have a deck", () => {
+    expect(
+      laneNames({ codeDeck: "Code", designDeck: "Design", artDeck: "Art", audioDeck: "Audio" }),
+    ).toEqual(["code:Code", "design:Design", "art:Art", "audio:Audio"]);
+  });
+
+  it("leaves out optional lanes without a deck, even when not skipped", () => {
+    expect(laneNames({ codeDeck: "Code", designDeck: "Design" })).toEqual([
+      "code:Code",
+      "design:Design",
+    ]);
+  });
+
+  it("leaves out skipped lanes", () => {
+    expect(
+      laneNames({ codeDeck: "Code", designDeck: "Design", artDeck: "Art", skipArt: true }),
+    ).toEqual(["code:Code", "design:Design"]);
+  });
+});
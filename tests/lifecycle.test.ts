@@ -0,0 +1,39 @@
+/**
+ * Tests for in-flight tool call tracking used by graceful shutdown.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { InFlightTracker } from "../src/lifecycle.js";
+
+describe("InFlightTracker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("refuses new calls once draining", async () => {
+    const tracker = new InFlightTracker();
+    expect(await tracker.drain(1000)).toEqual([]);
+    expect(tracker.isAccepting).toBe(false);
+    expect(tracker.begin("list_cards")).toBeNull();
+  });
+
+  it("waits for running calls to finish", async () => {
+    const tracker = new InFlightTracker();
+    const done = tracker.begin("split_features")!;
+    const drained = tracker.drain(60_000);
+    setTimeout(done, 10);
+    expect(await drained).toEqual([]);
+  });
+
+  it("returns the calls still running at the deadline", async () => {
+    vi.useFakeTimers();
+    const tracker = new InFlightTracker();
+    tracker.begin("split_features");
+    const finished = tracker.begin("list_cards")!;
+    finished();
+
+    const drained = tracker.drain(5000);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect((await drained).map((c) => c.name)).toEqual(["split_features"]);
+  });
+});
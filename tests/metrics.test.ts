@@ -0,0 +1,51 @@
+/**
+ * Tests for the Prometheus metrics registry.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  recordApiRequest,
+  recordRateLimitWait,
+  recordToolCall,
+  renderMetrics,
+} from "../src/metrics.js";
+
+function toolResult(payload: unknown) {
+  return { content: [{ type: "text", text: JSON.stringify(payload) }] };
+}
+
+describe("metrics", () => {
+  it("counts tool calls and errors by contract type", () => {
+    recordToolCall("list_cards", 120, toolResult({ ok: true, cards: [] }));
+    recordToolCall("list_cards", 80, toolResult({ ok: false, type: "setup", error: "no token" }));
+    recordToolCall("create_card", 10, undefined);
+
+    const text = renderMetrics();
+    expect(text).toContain('codecks_mcp_tool_calls_total{tool="list_cards"} 2');
+    expect(text).toContain('codecks_mcp_tool_errors_total{tool="list_cards",type="setup"} 1');
+    expect(text).toContain('codecks_mcp_tool_errors_total{tool="create_card",type="error"} 1');
+    expect(text).toContain(
+      'codecks_mcp_tool_duration_seconds_bucket{tool="list_cards",le="0.1"} 1',
+    );
+    expect(text).toContain(
+      'codecks_mcp_tool_duration_seconds_bucket{tool="list_cards",le="+Inf"} 2',
+    );
+    expect(text).toContain('codecks_mcp_tool_duration_seconds_sum{tool="list_cards"} 0.2');
+  });
+
+  it("counts API requests by path and status, with retries and rate-limit waits", () => {
+    recordApiRequest("/dispatch/cards/update", 200, 50, 2);
+    recordApiRequest("/", undefined, 30_000, 0);
+    recordRateLimitWait(1500);
+
+    const text = renderMetrics();
+    expect(text).toContain(
+      'codecks_api_requests_total{path="/dispatch/cards/update",status="200"} 1',
+    );
+    expect(text).toContain('codecks_api_requests_total{path="/",status="error"} 1');
+    expect(text).toContain('codecks_api_retries_total{path="/dispatch/cards/update"} 2');
+    expect(text).toContain("codecks_api_rate_limit_waits_total 1");
+    expect(text).toContain("codecks_api_rate_limit_wait_seconds_total 1.5");
+    expect(text).toContain("# TYPE codecks_api_request_duration_seconds histogram");
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for read-only mode and tool allow/deny lists.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CodecksClient } from "../src/client.js";
+import { registerAllTools } from "../src/tools/index.js";
+import { unknownPolicyEntries, type ToolPolicy } from "../src/tools/policy.js";
+
+const MUTATING_TOOLS = [
+  "add_to_hand",
+  "remove_from_hand",
+  "create_card",
+  "update_cards",
+  "mark_done",
+  "mark_started",
+  "archive_card",
+  "unarchive_card",
+  "delete_card",
+  "scaffold_feature",
+  "split_features",
+  "create_comment",
+  "reply_comment",
+  "close_comment",
+  "reopen_comment",
+  "save_workflow_preferences",
+  "save_cli_feedback",
+  "planning_init",
+  "planning_update",
+  "switch_account",
+];
+
+function registeredTools(policy: Partial<ToolPolicy> = {}): string[] {
+  return registeredConfigs(policy).map(([name]) => name);
+}
+
+function registeredConfigs(
+  policy: Partial<ToolPolicy> = {},
+): Array<[string, { annotations?: Record<string, unknown>; outputSchema?: unknown }]> {
+  const registerTool = vi.fn();
+  const server = { registerTool } as unknown as McpServer;
+  registerAllTools(server, {} as CodecksClient, {
+    readOnly: false,
+    allow: [],
+    deny: [],
+    ...policy,
+  });
+  return registerTool.mock.calls.map(([name, config]) => [name, config]);
+}
+
+describe("tool policy", () => {
+  it("registers every tool by default", () => {
+    const all = registeredTools();
+    expect(all).toContain("delete_card");
+    expect(all).toContain("list_cards");
+    for (const name of MUTATING_TOOLS) expect(all).toContain(name);
+  });
+
+  it("leaves out mutating tools in read-only mode", () => {
+    const tools = registeredTools({ readOnly: true });
+    expect(tools).toContain("list_cards");
+    expect(tools).toContain("list_conversations");
+    expect(tools).toContain("planning_measure");
+    expect(tools).not.toContain("delete_card");
+    expect(tools).not.toContain("split_features");
+    expect(tools).not.toContain("create_comment");
+    expect(tools).not.toContain("switch_account");
+    for (const name of MUTATING_TOOLS) expect(tools).not.toContain(name);
+  });
+
+  it("returns the names of the tools it registered", () => {
+    const registerTool = vi.fn();
+    const policy = { readOnly: true, allow: [], deny: ["standup"] };
+    const tools = registerAllTools(
+      { registerTool } as unknown as McpServer,
+      {} as CodecksClient,
+      policy,
+    );
+    expect([...tools]).toEqual(registerTool.mock.calls.map(([name]) => name));
+    expect(tools.has("get_card")).toBe(true);
+    expect(tools.has("standup")).toBe(false);
+  });
+
+  it("annotates every tool and declares its output schema", () => {
+    for (const [name, config] of registeredConfigs()) {
+      expect(config.annotations?.readOnlyHint, name).toBe(!MUTATING_TOOLS.includes(name));
+      expect(config.outputSchema, name).toBeDefined();
+    }
+    const configs = Object.fromEntries(registeredConfigs());
+    expect(configs.delete_card.annotations?.destructiveHint).toBe(true);
+    expect(configs.archive_card.annotations?.idempotentHint).toBe(true);
+    expect(configs.create_card.annotations?.idempotentHint).toBe(false);
+  });
+
+  it("filters by category and tool name, with deny winning", () => {
+    expect(registeredTools({ allow: ["hand"] }).sort()).toEqual([
+      "add_to_hand",
+      "list_hand",
+      "remove_from_hand",
+    ]);
+    const tools = registeredTools({ allow: ["read", "create_card"], deny: ["standup"] });
+    expect(tools).toContain("create_card");
+    expect(tools).toContain("get_card");
+    expect(tools).not.toContain("standup");
+    expect(tools).not.toContain("update_cards");
+  });
+
+  it("flags entries that match no tool or category", () => {
+    const policy = { readOnly: false, allow: ["read", "list_crads"], deny: ["delete_card"] };
+    expect(unknownPolicyEntries(policy, new Set(registeredTools()))).toEqual(["list_crads"]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for the workflow prompts and their embedded live data.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CodecksClient } from "../src/client.js";
+import { registerPrompts } from "../src/prompts.js";
+
+type PromptCallback = (args: Record<string, string>) => Promise<{
+  messages: Array<{ content: { text: string } }>;
+}>;
+
+function prompts(
+  client: Partial<CodecksClient>,
+  tools?: Set<string>,
+): Record<string, PromptCallback> {
+  const registerPrompt = vi.fn();
+  registerPrompts({ registerPrompt } as unknown as McpServer, client as CodecksClient, tools);
+  return Object.fromEntries(registerPrompt.mock.calls.map(([name, , cb]) => [name, cb]));
+}
+
+async function promptText(cb: PromptCallback, args: Record<string, string>): Promise<string> {
+  return (await cb(args)).messages[0].content.text;
+}
+
+describe("prompts", () => {
+  it("registers the workflow prompts", () => {
+    expect(Object.keys(prompts({})).sort()).toEqual([
+      "break_down_feature",
+      "daily_standup",
+      "plan_milestone",
+      "triage_blocked",
+    ]);
+  });
+
+  it("leaves out prompts whose tools the policy hides", () => {
+    // Read-only: scaffold_feature is gone, so break_down_feature goes with it
+    const tools = new Set(["standup", "pm_focus", "list_cards"]);
+    expect(Object.keys(prompts({}, tools)).sort()).toEqual([
+      "daily_standup",
+      "plan_milestone",
+      "triage_blocked",
+    ]);
+    expect(Object.keys(prompts({}, new Set(["standup"])))).toEqual(["daily_standup"]);
+  });
+
+  it("embeds standup data with user text tagged", async () => {
+    const standup = vi.fn().mockResolvedValue({
+      recently_done: [{ id: "c1", title: "Ship menu", status: "done", content: "long body" }],
+      in_progress: [],
+      blocked: [],
+      hand: [],
+    });
+    const text = await promptText(prompts({ standup }).daily_standup, {
+      owner: "Ada",
+      days: "3",
+    });
+
+    expect(standup).toHaveBeenCalledWith({ days: 3, project: undefined, owner: "Ada" });
+    expect(text).toContain("owner 'Ada'");
+    expect(text).toContain("[USER_DATA]Ship menu[/USER_DATA]");
+    expect(text).not.toContain("long body");
+  });
+
+  it("passes milestone filters through to listCards", async () => {
+    const listCards = vi.fn().mockResolvedValue({ cards: [], stats: { started: 0 } });
+    await promptText(prompts({ listCards }).plan_milestone, { milestone: "Beta" });
+    expect(listCards).toHaveBeenCalledWith(
+      expect.objectContaining({ milestone: "Beta", includeStats: true }),
+    );
+  });
+
+  it("still returns a prompt when live data fails", async () => {
+    const pmFocus = vi.fn().mockRejectedValue(new Error("[ERROR] No token."));
+    const text = await promptText(prompts({ pmFocus }).triage_blocked, {});
+    expect(text).toContain("Live data unavailable: [ERROR] No token.");
+    expect(text).toContain("`pm_focus`");
+  });
+});
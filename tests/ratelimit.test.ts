@@ -0,0 +1,55 @@
+/**
+ * Tests for the token-bucket rate limiter.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TokenBucket } from "../src/ratelimit.js";
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("grants requests within the budget immediately", async () => {
+    const bucket = new TokenBucket(3, 1000);
+    const waits = await Promise.all([bucket.acquire(), bucket.acquire(), bucket.acquire()]);
+    expect(waits).toEqual([0, 0, 0]);
+    expect(bucket.queueDepth).toBe(0);
+  });
+
+  it("queues requests over the budget until tokens refill", async () => {
+    const bucket = new TokenBucket(2, 1000);
+    await bucket.acquire();
+    await bucket.acquire();
+
+    let granted = false;
+    const pending = bucket.acquire().then((waited) => {
+      granted = true;
+      return waited;
+    });
+    expect(bucket.queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(granted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await pending).toBe(500);
+    expect(bucket.queueDepth).toBe(0);
+  });
+
+  it("serves queued requests in FIFO order", async () => {
+    const bucket = new TokenBucket(1, 100);
+    await bucket.acquire();
+
+    const order: number[] = [];
+    const a = bucket.acquire().then(() => order.push(1));
+    const b = bucket.acquire().then(() => order.push(2));
+    await vi.advanceTimersByTimeAsync(250);
+    await Promise.all([a, b]);
+    expect(order).toEqual([1, 2]);
+  });
+});
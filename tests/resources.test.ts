@@ -0,0 +1,92 @@
+/**
+ * Tests for resource registration and card resource subscriptions.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CodecksClient } from "../src/client.js";
+import { CardWatcher, registerResources } from "../src/resources.js";
+import { CliError } from "../src/errors.js";
+
+const CARD_ID = "12345678-1234-1234-1234-123456789abc";
+const URI = `codecks://card/${CARD_ID}`;
+
+function watcher(cards: Record<string, unknown>) {
+  const fetchCard = vi.fn(async (id: string) => {
+    if (!(id in cards)) throw new CliError(`[ERROR] Card not found: ${id}`);
+    return cards[id];
+  });
+  const notify = vi.fn(async () => {});
+  return { watcher: new CardWatcher(fetchCard, notify, 60_000), fetchCard, notify };
+}
+
+describe("CardWatcher", () => {
+  it("notifies only when a subscribed card changes", async () => {
+    const cards: Record<string, unknown> = { [CARD_ID]: { title: "A", status: "started" } };
+    const { watcher: w, notify } = watcher(cards);
+    await w.subscribe(URI);
+
+    await w.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    cards[CARD_ID] = { title: "A", status: "done" };
+    await w.poll();
+    await w.poll();
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith(URI);
+    w.stop();
+  });
+
+  it("treats a deleted card as a change and ignores transient errors", async () => {
+    const cards: Record<string, unknown> = { [CARD_ID]: { title: "A" } };
+    const { watcher: w, fetchCard, notify } = watcher(cards);
+    await w.subscribe(URI);
+
+    fetchCard.mockRejectedValueOnce(new Error("network down"));
+    await w.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    delete cards[CARD_ID];
+    await w.poll();
+    expect(notify).toHaveBeenCalledWith(URI);
+    w.stop();
+  });
+
+  it("stops polling after the last unsubscribe", async () => {
+    const { watcher: w, fetchCard } = watcher({ [CARD_ID]: { title: "A" } });
+    await w.subscribe(URI);
+    w.unsubscribe(URI);
+    expect(w.subscriptions).toEqual([]);
+
+    await w.poll();
+    expect(fetchCard).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects unknown cards and non-card URIs", async () => {
+    const { watcher: w } = watcher({});
+    await expect(w.subscribe(URI)).rejects.toThrow("Card not found");
+    await expect(w.subscribe("codecks://deck/Code")).rejects.toThrow("support subscriptions");
+    expect(w.subscriptions).toEqual([]);
+  });
+});
+
+describe("registerResources", () => {
+  function resourceNames(tools?: Set<string>): string[] {
+    const registerResource = vi.fn();
+    const server = {
+      registerResource,
+      server: { registerCapabilities: vi.fn(), setRequestHandler: vi.fn() },
+    } as unknown as McpServer;
+    registerResources(server, {} as CodecksClient, tools);
+    return registerResource.mock.calls.map(([name]) => name);
+  }
+
+  it("registers every resource without a tool policy", () => {
+    expect(resourceNames()).toEqual(["card", "deck", "milestone"]);
+  });
+
+  it("leaves out resources whose tools the policy hides", () => {
+    expect(resourceNames(new Set(["list_decks"]))).toEqual(["deck"]);
+    expect(resourceNames(new Set(["get_card", "list_milestones"]))).toEqual(["card", "milestone"]);
+  });
+});
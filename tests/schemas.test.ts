@@ -0,0 +1,91 @@
+/**
+ * Tests that tool results match their declared output schemas, as checked by an MCP client.
+ */
+
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CodecksClient } from "../src/client.js";
+import { CliError } from "../src/errors.js";
+import { registerAllTools } from "../src/tools/index.js";
+
+const CARD_ID = "12345678-1234-1234-1234-123456789abc";
+
+const CARD = { id: CARD_ID, title: "Jump", status: "started", priority: "a" };
+
+const codecks = {
+  getCard: vi.fn(async (id: string) => {
+    if (id !== CARD_ID) throw new CliError(`[ERROR] Card not found: ${id}`);
+    return CARD;
+  }),
+  listCards: vi.fn(async () => ({ cards: [CARD], stats: null, count: 1 })),
+  listHand: vi.fn(async () => [{ id: "qe-1", card: CARD_ID, sortIndex: 1 }]),
+  createCard: vi.fn(async () => ({ ok: true, card_id: "new", title: "Dash", warnings: ["w"] })),
+  updateCards: vi.fn(async () => ({ ok: true, updated: 1, results: [{ card_id: CARD_ID }] })),
+  scaffoldFeature: vi.fn(async () => ({
+    ok: true,
+    hero_id: "hero",
+    title: "Grapple",
+    subcards: [{ lane: "code", card_id: "sub", deck: "Code" }],
+  })),
+  splitFeatures: vi.fn(async () => ({
+    ok: true,
+    dry_run: true,
+    features_found: 1,
+    features: [{ id: CARD_ID, title: "Jump" }],
+  })),
+} as unknown as CodecksClient;
+
+let client: Client;
+
+beforeAll(async () => {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerAllTools(server, codecks);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: "test-client", version: "0.0.0" });
+  await client.connect(clientTransport);
+  await client.listTools(); // loads the output schemas the client validates against
+});
+
+describe("tool output schemas", () => {
+  it.each([
+    ["get_card", { card_id: CARD_ID }],
+    ["list_cards", {}],
+    ["list_hand", {}],
+    ["create_card", { title: "Dash", deck: "Code" }],
+    ["update_cards", { card_ids: [CARD_ID], status: "done" }],
+    [
+      "scaffold_feature",
+      { title: "Grapple", hero_deck: "Code", code_deck: "Code", design_deck: "Art" },
+    ],
+    ["split_features", { deck: "Code", code_deck: "Code", design_deck: "Art", dry_run: true }],
+    ["get_tag_registry", {}],
+    ["get_lane_registry", {}],
+    ["planning_measure", { operation: "report" }],
+  ])("%s returns structured content matching its schema", async (name, args) => {
+    const result = await client.callTool({ name, arguments: args });
+    expect(result.isError, JSON.stringify(result.content)).toBeFalsy();
+    expect(result.structuredContent).toBeDefined();
+  });
+
+  it("requires the fields a successful result always carries", async () => {
+    vi.mocked(codecks.getCard).mockResolvedValueOnce({ id: CARD_ID });
+    const result = await client.callTool({ name: "get_card", arguments: { card_id: CARD_ID } });
+    expect(result.isError).toBe(true);
+    const [content] = result.content as Array<{ text: string }>;
+    expect(content.text).toMatch(/Output validation error/);
+  });
+
+  it("flags errors without structured content", async () => {
+    const result = await client.callTool({
+      name: "get_card",
+      arguments: { card_id: "87654321-4321-4321-4321-cba987654321" },
+    });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    const [content] = result.content as Array<{ text: string }>;
+    expect(JSON.parse(content.text)).toMatchObject({ ok: false, type: "error" });
+  });
+});
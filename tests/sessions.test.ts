@@ -0,0 +1,60 @@
+/**
+ * Tests for the HTTP session store.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { SessionStore } from "../src/sessions.js";
+
+function fakeSession() {
+  return { close: vi.fn().mockResolvedValue(undefined) };
+}
+
+describe("SessionStore", () => {
+  it("enforces the session cap", () => {
+    const store = new SessionStore({ maxSessions: 2, idleTimeoutMs: 0 });
+    store.add("a", fakeSession());
+    expect(store.hasCapacity()).toBe(true);
+    store.add("b", fakeSession());
+    expect(store.hasCapacity()).toBe(false);
+  });
+
+  it("closes and forgets sessions", async () => {
+    const store = new SessionStore({ maxSessions: 0, idleTimeoutMs: 0 });
+    const session = fakeSession();
+    store.add("a", session);
+    expect(await store.close("a")).toBe(true);
+    expect(session.close).toHaveBeenCalledOnce();
+    expect(store.get("a")).toBeUndefined();
+    expect(await store.close("a")).toBe(false);
+  });
+
+  it("expires only idle sessions", async () => {
+    const store = new SessionStore({ maxSessions: 0, idleTimeoutMs: 1000 });
+    const idle = fakeSession();
+    const active = fakeSession();
+    store.add("idle", idle);
+    store.add("active", active);
+
+    const later = Date.now() + 5000;
+    vi.spyOn(Date, "now").mockReturnValue(later);
+    store.get("active");
+    vi.restoreAllMocks();
+
+    expect(await store.sweep(later + 10)).toEqual(["idle"]);
+    expect(idle.close).toHaveBeenCalledOnce();
+    expect(active.close).not.toHaveBeenCalled();
+    expect(store.ids()).toEqual(["active"]);
+  });
+
+  it("closes everything on closeAll", async () => {
+    const store = new SessionStore({ maxSessions: 0, idleTimeoutMs: 1000 });
+    const a = fakeSession();
+    const b = fakeSession();
+    store.add("a", a);
+    store.add("b", b);
+    await store.closeAll();
+    expect(store.size).toBe(0);
+    expect(a.close).toHaveBeenCalledOnce();
+    expect(b.close).toHaveBeenCalledOnce();
+  });
+});